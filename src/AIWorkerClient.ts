@@ -0,0 +1,165 @@
+import { ChessGame } from './ChessGame';
+import { AIWorkerRequest, AIWorkerResponse, AIWorkerSearchRequest, createSearchRequest } from './aiWorkerProtocol';
+import { PolyglotBook } from './polyglot';
+import { TablebaseData } from './tablebase';
+import { SearchIteration, SearchLimits, SearchResult } from './types';
+
+type FinalResponse = Extract<AIWorkerResponse, { type: 'result' | 'analysis' }>;
+
+interface PendingSearch {
+  id: number;
+  resolve: (response: FinalResponse | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (iteration: SearchIteration) => void;
+}
+
+// Tablebases are built once for the whole page, in a worker of their own,
+// and copied to every AI worker as each table is ready. KBNK takes
+// seconds, so searches meanwhile use the tables their worker already has
+const tablebases: TablebaseData[] = [];
+const tablebaseListeners = new Set<(data: TablebaseData) => void>();
+let tablebaseWorker: Worker | null = null;
+
+// Calls `listener` with every table, those already built included, until
+// the returned function is called
+const watchTablebases = (listener: (data: TablebaseData) => void): (() => void) => {
+  if (!tablebaseWorker) {
+    tablebaseWorker = new Worker(new URL('./tablebaseWorker.ts', import.meta.url), { type: 'module' });
+    tablebaseWorker.onmessage = (event: MessageEvent<TablebaseData>) => {
+      tablebases.push(event.data);
+      tablebaseListeners.forEach(notify => notify(event.data));
+    };
+  }
+  tablebases.forEach(listener);
+  tablebaseListeners.add(listener);
+  return () => tablebaseListeners.delete(listener);
+};
+
+// Runs ChessAI searches in a dedicated worker so the page never blocks.
+// A running search cannot read messages, so the worker stops when the
+// shared `activeId` no longer holds its id. Shared memory needs a
+// cross-origin isolated page; without it cancelling terminates the worker
+// and a fresh one is started for the next search.
+export class AIWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingSearch | null = null;
+  private nextId = 1;
+  private book: ArrayBuffer | null = null;
+  private readonly activeId = typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated
+    ? new Int32Array(new SharedArrayBuffer(4))
+    : null;
+  private unwatchTablebases: (() => void) | null = null;
+
+  // Resolves with null if the search is cancelled before it finishes
+  async search(
+    game: ChessGame,
+    limits: SearchLimits,
+    onProgress?: (iteration: SearchIteration) => void
+  ): Promise<SearchResult | null> {
+    const response = await this.send(createSearchRequest(this.nextId++, game, limits), onProgress);
+    return response?.type === 'result' ? response.result : null;
+  }
+
+  // The position's score and best line; see ChessAI.analyze
+  async analyze(
+    game: ChessGame,
+    limits: SearchLimits,
+    onProgress?: (iteration: SearchIteration) => void
+  ): Promise<SearchIteration | null> {
+    const response = await this.send(createSearchRequest(this.nextId++, game, limits, 'analyze'), onProgress);
+    return response?.type === 'analysis' ? response.analysis : null;
+  }
+
+  // Plays openings from a Polyglot book, and from the built-in book where
+  // it has no moves; null goes back to just the built-in book. Throws if
+  // `data` isn't a Polyglot book
+  setBook(data: ArrayBuffer | null): void {
+    if (data) new PolyglotBook(data);
+    this.book = data;
+    this.post({ type: 'book', data });
+  }
+
+  isSearching(): boolean {
+    return this.pending !== null;
+  }
+
+  cancel(): void {
+    if (!this.pending) return;
+
+    if (this.activeId) {
+      Atomics.store(this.activeId, 0, 0);
+    } else {
+      this.stopWorker();
+    }
+    const { resolve } = this.pending;
+    this.pending = null;
+    resolve(null);
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.stopWorker();
+  }
+
+  private send(request: AIWorkerSearchRequest, onProgress?: (iteration: SearchIteration) => void): Promise<FinalResponse | null> {
+    this.cancel();
+
+    return new Promise((resolve, reject) => {
+      this.pending = { id: request.id, resolve, reject, onProgress };
+      const worker = this.getWorker();
+      if (this.activeId) Atomics.store(this.activeId, 0, request.id);
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<AIWorkerResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = event => this.fail(new Error(event.message || 'AI worker failed'));
+      if (this.activeId) this.post({ type: 'stop-flag', activeId: this.activeId });
+      if (this.book) this.post({ type: 'book', data: this.book });
+      this.unwatchTablebases = watchTablebases(data => this.post({ type: 'tablebase', data }));
+    }
+    return this.worker;
+  }
+
+  private post(request: AIWorkerRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private stopWorker(): void {
+    this.unwatchTablebases?.();
+    this.unwatchTablebases = null;
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private handleResponse(response: AIWorkerResponse): void {
+    const pending = this.pending;
+    if (!pending || response.id !== pending.id) {
+      return; // A cancelled search
+    }
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.iteration);
+        break;
+      case 'result':
+      case 'analysis':
+        this.pending = null;
+        pending.resolve(response);
+        break;
+      case 'error':
+        this.fail(new Error(response.message));
+        break;
+    }
+  }
+
+  private fail(error: Error): void {
+    const pending = this.pending;
+    this.pending = null;
+    this.stopWorker();
+    pending?.reject(error);
+  }
+}
@@ -1,25 +1,215 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { ChessGame } from './ChessGame';
-import { ChessAI } from './ChessAI';
+import { DIFFICULTY_LEVELS, DifficultyLevel, MAX_ELO, MIN_ELO, getStrengthLimits } from './ChessAI';
+import { AIWorkerClient } from './AIWorkerClient';
 import { ChessBoard } from './ChessBoard';
-import { Position, GameState } from './types';
-import { Crown, RotateCcw, Cpu, User, AlertCircle } from 'lucide-react';
+import { ChessClock, TIME_CONTROLS } from './ChessClock';
+import { ChessClockDisplay } from './ChessClockDisplay';
+import { Position, GameState, PieceType, SearchIteration, Color, GameMode, Move } from './types';
+import { exportPgn, importPgn, PgnTags } from './pgn';
+import { SavedGame, loadGame, saveGame } from './storage';
+import { getBuiltInBook } from './openingBook';
+import { GameAnalysis, analyzeGame } from './analysis';
+import { GameAnalysisPanel } from './GameAnalysisPanel';
+import { MoveList } from './MoveList';
+import { EvaluationBar } from './EvaluationBar';
+import { findThreatenedPieces, getPassedPosition } from './threats';
+import { PuzzleTrainer } from './PuzzleTrainer';
+import {
+  Crown, RotateCcw, Cpu, User, Users, AlertCircle, Download, Undo2, Redo2, Timer, Gauge, BookOpen, Microscope, CornerUpLeft,
+  Activity, Lightbulb, ShieldAlert, Swords, Puzzle, Handshake, X, Upload
+} from 'lucide-react';
+
+const GAME_MODES: { id: GameMode; name: string }[] = [
+  { id: 'white', name: 'White' },
+  { id: 'black', name: 'Black' },
+  { id: 'random', name: 'Random' },
+  { id: 'ai-vs-ai', name: 'AI vs AI' }
+];
+
+// The game in progress is paused, clock and AI included, while solving puzzles
+const VIEWS: { id: 'play' | 'puzzles'; name: string; icon: typeof Swords }[] = [
+  { id: 'play', name: 'Play', icon: Swords },
+  { id: 'puzzles', name: 'Puzzles', icon: Puzzle }
+];
+
+const DEFAULT_LEVEL = DIFFICULTY_LEVELS.find(level => level.id === 'intermediate')!;
+
+// Every position gets the same search, book positions included
+const ANALYSIS_LIMITS = { maxDepth: 4, timeMs: 1500 };
+
+// Deep enough to be useful, short enough to keep up with quick games
+const LIVE_ANALYSIS_LIMITS = { maxDepth: 8, timeMs: 2000 };
+
+// Hints and threats come from the full-strength engine, whatever the difficulty
+const HINT_LIMITS = { maxDepth: 6, timeMs: 1500 };
+
+// The live position is shown as null, so the board follows new moves.
+// Before the first move there is nothing earlier to show
+const toViewedPly = (ply: number, plies: number): number | null => {
+  return ply >= plies || plies === 0 ? null : Math.max(0, ply);
+};
+
+// Timed games can't resume their clocks, so only untimed games are restored
+const restoreGame = (saved: SavedGame | null): ChessGame => {
+  if (saved?.timeControlId === 'untimed') {
+    try {
+      const { game } = importPgn(saved.pgn);
+      if (saved.gameOverReason && saved.gameOverReason === game.getClaimableDraw()) {
+        game.claimDraw();
+      }
+      return game;
+    } catch {
+      // Start over if the saved game no longer replays
+    }
+  }
+  return new ChessGame();
+};
+
+// The color the human plays, or null when the AI plays both sides
+const pickHumanColor = (mode: GameMode): Color | null => {
+  if (mode === 'ai-vs-ai') return null;
+  if (mode === 'random') return Math.random() < 0.5 ? 'white' : 'black';
+  return mode;
+};
+
+const createClock = (timeControlId: string): ChessClock | null => {
+  const timeControl = TIME_CONTROLS.find(control => control.id === timeControlId);
+  if (!timeControl) {
+    return null;
+  }
+  const clock = new ChessClock(timeControl);
+  clock.start('white');
+  return clock;
+};
+
+// Pawns from the searching side's point of view, or "M3" / "-M3" for a
+// forced mate
+const formatScore = ({ score, mate }: SearchIteration): string => {
+  if (mate !== null) {
+    return `${mate < 0 ? '-' : ''}M${Math.abs(mate)}`;
+  }
+  return (score / 100).toFixed(2);
+};
 
 function App() {
-  const [game] = useState(() => new ChessGame());
-  const [ai] = useState(() => new ChessAI());
+  const [saved] = useState(loadGame);
+  const [game] = useState(() => restoreGame(saved));
+  const [aiClient] = useState(() => new AIWorkerClient());
+  // Live analysis has its own worker so it never cancels the AI's search
+  const [analysisClient] = useState(() => new AIWorkerClient());
+  const [hintClient] = useState(() => new AIWorkerClient());
+  const [threatClient] = useState(() => new AIWorkerClient());
   const [gameState, setGameState] = useState<GameState>(() => game.getGameState());
   const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<Position[]>([]);
   const [isThinking, setIsThinking] = useState(false);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
+  const [timeControlId, setTimeControlId] = useState(saved?.timeControlId ?? 'untimed');
+  const [gameMode, setGameMode] = useState<GameMode>(saved?.gameMode ?? 'white');
+  const [humanColor, setHumanColor] = useState<Color | null>(saved ? saved.humanColor : 'white');
+  const [difficultyIds, setDifficultyIds] = useState<Record<Color, string>>(
+    saved?.difficultyIds ?? { white: DEFAULT_LEVEL.id, black: DEFAULT_LEVEL.id }
+  );
+  // Ratings for sides whose difficulty is 'custom' (limit strength)
+  const [customElos, setCustomElos] = useState<Record<Color, number>>(saved?.customElos ?? { white: 1000, black: 1000 });
+  // Bumped by every new game, so the AI starts even if the side to move is unchanged
+  const [gameId, setGameId] = useState(0);
+  const [searchInfo, setSearchInfo] = useState<{ iteration: SearchIteration; pv: string[]; fromTablebase?: boolean } | null>(null);
+  const [initialClock] = useState(() => createClock(timeControlId));
+  const clockRef = useRef<ChessClock | null>(initialClock);
+  const [, setClockTick] = useState(0);
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  // Share of the positions analyzed so far, while the analysis runs
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  // The ply shown on the board while looking back through the game, or
+  // null for the live position
+  const [viewedPly, setViewedPly] = useState<number | null>(null);
+  const [view, setView] = useState<'play' | 'puzzles'>('play');
+  // Off by default so the engine's opinion doesn't spoil serious games
+  const [showEvaluation, setShowEvaluation] = useState(saved?.showEvaluation ?? false);
+  // The engine's view of the live position, scored for `color` to move
+  const [liveAnalysis, setLiveAnalysis] = useState<{ iteration: SearchIteration; pv: string[]; color: Color } | null>(null);
+  const [hint, setHint] = useState<Move | null>(null);
+  const [isFindingHint, setIsFindingHint] = useState(false);
+  // The count belongs to the saved game, so it only carries over when that game is restored
+  const [hintsUsed, setHintsUsed] = useState(saved?.timeControlId === 'untimed' ? saved.hintsUsed ?? 0 : 0);
+  const [showThreats, setShowThreats] = useState(saved?.showThreats ?? false);
+  // The opponent's best move if the player passed, while threats are shown
+  const [threatReply, setThreatReply] = useState<{ move: Move; san: string } | null>(null);
+  // The last engine task that failed, shown until dismissed
+  const [engineError, setEngineError] = useState<{ task: string; message: string } | null>(null);
+  // The file name of the Polyglot book the AI plays openings from, if the
+  // player loaded one
+  const [bookName, setBookName] = useState<string | null>(null);
+  const bookInputRef = useRef<HTMLInputElement>(null);
 
-  const updateGameState = () => {
+  const updateGameState = useCallback(() => {
     setGameState(game.getGameState());
+  }, [game]);
+
+  const isAIColor = useCallback((color: Color) => color !== humanColor, [humanColor]);
+
+  const getDifficulty = useCallback((color: Color): DifficultyLevel => {
+    if (difficultyIds[color] === 'custom') {
+      const elo = Math.min(MAX_ELO, Math.max(MIN_ELO, customElos[color] || MIN_ELO));
+      return { id: 'custom', name: `${elo} Elo`, elo, limits: getStrengthLimits(elo) };
+    }
+    return DIFFICULTY_LEVELS.find(level => level.id === difficultyIds[color]) ?? DEFAULT_LEVEL;
+  }, [difficultyIds, customElos]);
+
+  const getPlayerLabel = (color: Color) => {
+    const side = color === 'white' ? 'White' : 'Black';
+    return isAIColor(color) ? `${side} (${getDifficulty(color).name} AI)` : `${side} (You)`;
+  };
+
+  // Ends the game if the side to move has run out of time
+  const checkFlag = useCallback((): boolean => {
+    const clock = clockRef.current;
+    if (!clock?.getFlagged() || game.getGameState().gameOverReason) {
+      return false;
+    }
+    game.declareTimeout();
+    clock.pause();
+    updateGameState();
+    return true;
+  }, [game, updateGameState]);
+
+  const recordMoveOnClock = useCallback(() => {
+    const clock = clockRef.current;
+    if (clock) {
+      clock.press();
+      if (game.getGameState().gameOverReason) {
+        clock.pause();
+      }
+    }
+  }, [game]);
+
+  const completeMove = (from: Position, to: Position, promoteTo?: PieceType): boolean => {
+    if (checkFlag()) {
+      return true;
+    }
+
+    const moveSuccessful = game.makeMove(from, to, promoteTo);
+    if (moveSuccessful) {
+      recordMoveOnClock();
+      setSelectedSquare(null);
+      setPossibleMoves([]);
+      updateGameState();
+    }
+    return moveSuccessful;
+  };
+
+  const handlePromotionSelect = (pieceType: PieceType) => {
+    if (pendingPromotion) {
+      completeMove(pendingPromotion.from, pendingPromotion.to, pieceType);
+      setPendingPromotion(null);
+    }
   };
 
   const handleSquareClick = async (position: Position) => {
-    if (gameState.currentPlayer === 'black' && !gameState.isCheckmate && !gameState.isStalemate) {
-      return; // Don't allow moves during AI turn
+    if (isAIColor(gameState.currentPlayer) || gameState.gameOverReason || viewedPly !== null) {
+      return; // Don't allow moves during AI turn or after the game ended
     }
 
     if (selectedSquare) {
@@ -27,19 +217,16 @@ function App() {
         // Deselect if clicking the same square
         setSelectedSquare(null);
         setPossibleMoves([]);
+      } else if (
+        game.isPromotion(selectedSquare, position) &&
+        possibleMoves.some(pos => pos.row === position.row && pos.col === position.col)
+      ) {
+        // Wait for the player to pick a piece before promoting
+        setPendingPromotion({ from: selectedSquare, to: position });
       } else {
         // Try to make a move
-        const moveSuccessful = game.makeMove(selectedSquare, position);
-        if (moveSuccessful) {
-          setSelectedSquare(null);
-          setPossibleMoves([]);
-          updateGameState();
-
-          // Trigger AI move after a short delay
-          if (!game.getGameState().isCheckmate && !game.getGameState().isStalemate) {
-            setTimeout(() => makeAIMove(), 500);
-          }
-        } else {
+        const moveSuccessful = completeMove(selectedSquare, position);
+        if (!moveSuccessful) {
           // If move failed, try selecting the new square
           const newMoves = game.getPossibleMoves(position);
           if (newMoves.length > 0) {
@@ -61,34 +248,220 @@ function App() {
     }
   };
 
-  const makeAIMove = async () => {
+  const reportEngineError = useCallback((task: string, error: unknown) => {
+    setEngineError({ task, message: error instanceof Error ? error.message : String(error) });
+  }, []);
+
+  const loadBook = async (file: File) => {
+    try {
+      aiClient.setBook(await file.arrayBuffer());
+      setBookName(file.name);
+    } catch (error) {
+      reportEngineError('Loading the opening book', error);
+    }
+  };
+
+  const unloadBook = () => {
+    aiClient.setBook(null);
+    setBookName(null);
+  };
+
+  const claimDraw = useCallback(() => {
+    if (game.claimDraw()) {
+      clockRef.current?.pause();
+      updateGameState();
+    }
+  }, [game, updateGameState]);
+
+  // Searches in the AI worker; the page stays responsive and shows the
+  // search as it deepens
+  const makeAIMove = useCallback(async () => {
+    const clock = clockRef.current;
+    const color = game.getGameState().currentPlayer;
     setIsThinking(true);
-    
-    // Add a small delay to make the AI thinking visible
-    setTimeout(() => {
-      const aiMove = ai.getBestMove(game);
-      if (aiMove) {
-        game.applyMove(aiMove);
-        updateGameState();
-      }
+    setSearchInfo(null);
+
+    // Never think longer than the clock allows
+    const { limits } = getDifficulty(color);
+    const timeMs = Math.min(limits.timeMs ?? Infinity, clock?.getMoveBudget(color) ?? Infinity);
+
+    let result;
+    try {
+      result = await aiClient.search(game, { ...limits, timeMs }, iteration => {
+        setSearchInfo({ iteration, pv: game.getSanLine(iteration.pv) });
+      });
+    } catch (error) {
+      reportEngineError('AI move', error);
       setIsThinking(false);
-    }, 1000);
+      return;
+    }
+
+    // A cancelled search belongs to a game that has since been reset or paused
+    if (!result) {
+      return;
+    }
+
+    // Tablebase moves are looked up rather than searched to a depth
+    if (result.fromTablebase) {
+      const [iteration] = result.iterations;
+      setSearchInfo({ iteration, pv: game.getSanLine(iteration.pv), fromTablebase: true });
+    }
+
+    // The AI takes a draw it can claim unless it thinks it is ahead
+    const lastIteration = result.iterations[result.iterations.length - 1];
+    if (game.getClaimableDraw() && (lastIteration?.score ?? 0) <= 0 && !checkFlag()) {
+      claimDraw();
+    } else if (result.bestMove && !game.getGameState().gameOverReason && !checkFlag()) {
+      game.applyMove(result.bestMove);
+      recordMoveOnClock();
+      updateGameState();
+    }
+    setIsThinking(false);
+  }, [aiClient, game, getDifficulty, checkFlag, claimDraw, recordMoveOnClock, reportEngineError, updateGameState]);
+
+  // Suggests the engine's move for the player; every hint is counted
+  const showHint = async () => {
+    setIsFindingHint(true);
+    try {
+      const analysis = await hintClient.analyze(game, HINT_LIMITS);
+      // A cancelled hint belongs to a position that has since changed
+      if (analysis?.pv[0]) {
+        setHint(analysis.pv[0]);
+        setHintsUsed(count => count + 1);
+      }
+    } catch (error) {
+      reportEngineError('Hint', error);
+    }
+    setIsFindingHint(false);
+  };
+
+  const runAnalysis = async () => {
+    setAnalysisProgress(0);
+    try {
+      const result = await analyzeGame(
+        game,
+        position => aiClient.analyze(position, ANALYSIS_LIMITS),
+        (done, total) => setAnalysisProgress(done / total)
+      );
+      // A cancelled analysis belongs to a game that has since been reset
+      if (result) {
+        setAnalysis(result);
+      }
+    } catch (error) {
+      reportEngineError('Game analysis', error);
+    }
+    setAnalysisProgress(null);
+  };
+
+  const clearAnalysis = () => {
+    setAnalysis(null);
+    setAnalysisProgress(null);
+    setViewedPly(null);
   };
 
-  const resetGame = () => {
+  // Earlier positions are shown read-only; the live game carries on
+  const viewPly = (ply: number) => {
+    setViewedPly(toViewedPly(ply, gameState.moveHistory.length));
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  const resetGame = (nextTimeControlId = timeControlId, nextMode = gameMode) => {
     const newGame = new ChessGame();
     Object.assign(game, newGame);
+    aiClient.cancel();
+    clockRef.current = createClock(nextTimeControlId);
+    setHumanColor(pickHumanColor(nextMode));
+    setGameId(id => id + 1);
+    setIsThinking(false);
+    setSearchInfo(null);
+    setEngineError(null);
+    setHintsUsed(0);
+    setPendingPromotion(null);
     setSelectedSquare(null);
     setPossibleMoves([]);
+    clearAnalysis();
     updateGameState();
   };
 
+  // Undo/redo work in whole turns so it is always the player's move afterwards
+  // Take-backs are only offered in untimed games against the AI
+  const isAITurn = isAIColor(gameState.currentPlayer) && !gameState.gameOverReason;
+  const canTakeBack = !isThinking && !isAITurn && !clockRef.current && humanColor !== null;
+  const canUndoTurn = gameState.moveHistory.some(move => move.piece.color === humanColor);
+  // Only the player to move can claim a draw, and only in the live position
+  const claimableDraw = humanColor !== null && !isAITurn && viewedPly === null ? game.getClaimableDraw() : null;
+
+  const takeBackMove = () => {
+    clearAnalysis();
+    game.undoMove();
+    if (isAIColor(game.getGameState().currentPlayer)) {
+      game.undoMove();
+    }
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    updateGameState();
+  };
+
+  const redoMove = () => {
+    clearAnalysis();
+    game.redoMove();
+    if (isAIColor(game.getGameState().currentPlayer)) {
+      game.redoMove();
+    }
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    updateGameState();
+  };
+
+  // Player names, plus the AI's rating where it has one
+  const getPgnTags = useCallback((): PgnTags => {
+    const tags: PgnTags = {};
+    for (const color of ['white', 'black'] as const) {
+      const side = color === 'white' ? 'White' : 'Black';
+      const { name, elo } = getDifficulty(color);
+      tags[side] = isAIColor(color) ? `Chess Master AI (${name})` : 'You';
+      if (isAIColor(color) && elo !== null) {
+        tags[`${side}Elo`] = String(elo);
+      }
+    }
+    return tags;
+  }, [getDifficulty, isAIColor]);
+
+  const downloadPgn = () => {
+    const pgn = exportPgn(game, getPgnTags());
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'chess-master.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getGameStatusMessage = () => {
     if (gameState.isCheckmate) {
       return gameState.currentPlayer === 'white' ? 'Black wins by checkmate!' : 'White wins by checkmate!';
     }
-    if (gameState.isStalemate) {
-      return 'Game ends in stalemate!';
+    switch (gameState.gameOverReason) {
+      case 'timeout':
+        return gameState.currentPlayer === 'white' ? 'Black wins on time!' : 'White wins on time!';
+      case 'timeout-vs-insufficient-material':
+        return 'Draw: time ran out, but the opponent cannot checkmate!';
+      case 'stalemate':
+        return 'Game ends in stalemate!';
+      case 'threefold-repetition':
+        return 'Draw claimed by threefold repetition!';
+      case 'fifty-move-rule':
+        return 'Draw claimed under the fifty-move rule!';
+      case 'fivefold-repetition':
+        return 'Draw by fivefold repetition!';
+      case 'seventy-five-move-rule':
+        return 'Draw by the seventy-five-move rule!';
+      case 'insufficient-material':
+        return 'Draw by insufficient material!';
     }
     if (gameState.isCheck) {
       return `${gameState.currentPlayer === 'white' ? 'White' : 'Black'} is in check!`;
@@ -96,12 +469,212 @@ function App() {
     return '';
   };
 
-  // Auto-trigger AI move on black's turn
+  // Tick the clocks while the game is running
+  useEffect(() => {
+    if (!clockRef.current || gameState.gameOverReason) {
+      return;
+    }
+    const interval = setInterval(() => {
+      if (!checkFlag()) {
+        setClockTick(tick => tick + 1);
+      }
+    }, 100);
+    return () => clearInterval(interval);
+  }, [checkFlag, timeControlId, gameState.gameOverReason]);
+
+  // Auto-trigger AI move whenever the AI is to move
+  useEffect(() => {
+    if (view === 'play' && isAIColor(gameState.currentPlayer) && !gameState.gameOverReason && !aiClient.isSearching()) {
+      makeAIMove();
+    }
+  }, [aiClient, isAIColor, makeAIMove, gameState.currentPlayer, gameState.gameOverReason, gameId, view]);
+
+  // Solving puzzles stops the clock and drops the AI's search; both carry
+  // on once the player is back
+  useEffect(() => {
+    if (view === 'play') {
+      if (!game.getGameState().gameOverReason) {
+        clockRef.current?.resume();
+      }
+      return;
+    }
+    clockRef.current?.pause();
+    aiClient.cancel();
+    setIsThinking(false);
+  }, [aiClient, game, view]);
+
+  // The human's pieces are at the bottom; in AI vs AI white is
+  const bottomColor: Color = humanColor === 'black' ? 'black' : 'white';
+  const topColor: Color = bottomColor === 'white' ? 'black' : 'white';
+
+  const renderClock = (color: Color) => clockRef.current && (
+    <ChessClockDisplay
+      color={color}
+      label={getPlayerLabel(color)}
+      remainingMs={clockRef.current.getRemaining(color)}
+      isActive={clockRef.current.isRunning() && clockRef.current.getActiveColor() === color}
+      isFlagged={
+        (gameState.gameOverReason === 'timeout' || gameState.gameOverReason === 'timeout-vs-insufficient-material') &&
+        gameState.currentPlayer === color
+      }
+    />
+  );
+
+  // Save after every move and settings change
+  useEffect(() => {
+    saveGame({
+      pgn: exportPgn(game, getPgnTags()),
+      timeControlId,
+      gameMode,
+      humanColor,
+      difficultyIds,
+      customElos,
+      showEvaluation,
+      showThreats,
+      hintsUsed,
+      gameOverReason: gameState.gameOverReason
+    });
+  }, [game, getPgnTags, gameState, timeControlId, gameMode, humanColor, difficultyIds, customElos, showEvaluation, showThreats, hintsUsed]);
+
+  // Analyze every new position while the evaluation is shown; a copy is
+  // analyzed so the line still reads right if a move is made meanwhile
   useEffect(() => {
-    if (gameState.currentPlayer === 'black' && !gameState.isCheckmate && !gameState.isStalemate && !isThinking) {
-      setTimeout(() => makeAIMove(), 500);
+    setLiveAnalysis(null);
+    if (!showEvaluation) {
+      return;
     }
-  }, [gameState.currentPlayer, gameState.isCheckmate, gameState.isStalemate]);
+    const position = game.clone();
+    const color = position.getCurrentPlayer();
+    const showIteration = (iteration: SearchIteration) => {
+      setLiveAnalysis({ iteration, pv: position.getSanLine(iteration.pv), color });
+    };
+    analysisClient
+      .analyze(position, LIVE_ANALYSIS_LIMITS, showIteration)
+      .then(iteration => iteration && showIteration(iteration))
+      .catch(error => reportEngineError('Live analysis', error));
+    return () => analysisClient.cancel();
+  }, [analysisClient, game, showEvaluation, gameState, reportEngineError]);
+
+  // A hint only applies to the position it was asked for
+  useEffect(() => {
+    setHint(null);
+    return () => hintClient.cancel();
+  }, [hintClient, gameState]);
+
+  // On the player's turn, look for what the opponent would do if given a
+  // free move; there is none to give while in check
+  useEffect(() => {
+    setThreatReply(null);
+    const passed = getPassedPosition(game);
+    if (!showThreats || gameState.currentPlayer !== humanColor || gameState.gameOverReason || !passed) {
+      return;
+    }
+    threatClient
+      .analyze(passed, HINT_LIMITS)
+      .then(analysis => {
+        const [move] = analysis?.pv ?? [];
+        if (move) {
+          setThreatReply({ move, san: passed.getSanLine([move])[0] });
+        }
+      })
+      .catch(error => reportEngineError('Threat search', error));
+    return () => threatClient.cancel();
+  }, [threatClient, game, showThreats, gameState, humanColor, reportEngineError]);
+
+  // Arrow keys step through the game; Home and End jump to either end
+  useEffect(() => {
+    const plies = gameState.moveHistory.length;
+    const steps: Record<string, (ply: number) => number> = {
+      ArrowLeft: ply => ply - 1,
+      ArrowRight: ply => ply + 1,
+      Home: () => 0,
+      End: () => plies
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const step = steps[event.key];
+      if (!step || view !== 'play' || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) {
+        return;
+      }
+      event.preventDefault();
+      setViewedPly(ply => toViewedPly(step(ply ?? plies), plies));
+      setPendingPromotion(null);
+      setSelectedSquare(null);
+      setPossibleMoves([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState.moveHistory.length, view]);
+
+  // Stop the worker when the page goes away
+  useEffect(() => () => aiClient.dispose(), [aiClient]);
+  useEffect(() => () => analysisClient.dispose(), [analysisClient]);
+  useEffect(() => () => hintClient.dispose(), [hintClient]);
+  useEffect(() => () => threatClient.dispose(), [threatClient]);
+
+  const opening = getBuiltInBook().getOpening(game);
+
+  // Earlier positions are replayed from the start, so only when the game
+  // or the viewed ply changes rather than on every clock tick
+  const shownBoard = useMemo(
+    () => (viewedPly === null ? gameState.board : game.getPositionAt(viewedPly).board),
+    [game, gameState, viewedPly]
+  );
+  const startingFen = game.getStartingFen();
+  const startingPosition = useMemo(() => new ChessGame(startingFen).getGameState(), [startingFen]);
+
+  // Hints and threats describe the live position, on the player's turn
+  const canAssist = humanColor !== null && viewedPly === null && !isAITurn;
+  const threatenedSquares = showThreats && canAssist ? findThreatenedPieces(game, humanColor) : [];
+
+  // The live analysis from white's point of view, as the evaluation bar shows it
+  const liveEvaluation = liveAnalysis && (() => {
+    const { iteration, color } = liveAnalysis;
+    const sign = color === 'white' ? 1 : -1;
+    return { ...iteration, score: sign * iteration.score, mate: iteration.mate === null ? null : sign * iteration.mate };
+  })();
+
+  // Settings shown for `color` and applied to every color in `appliesTo`
+  const renderStrengthSetting = (label: string, color: Color, appliesTo: Color[]) => (
+    <div key={color} className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <Gauge size={16} />
+        <span>{label}</span>
+        <select
+          value={difficultyIds[color]}
+          onChange={e => {
+            const id = e.target.value;
+            setDifficultyIds(ids => ({ ...ids, ...Object.fromEntries(appliesTo.map(side => [side, id])) }));
+          }}
+          className="ml-auto bg-slate-900 border border-slate-600 text-white rounded-md px-2 py-1"
+        >
+          {DIFFICULTY_LEVELS.map(level => (
+            <option key={level.id} value={level.id}>
+              {level.elo === null ? level.name : `${level.name} (~${level.elo})`}
+            </option>
+          ))}
+          <option value="custom">Limit strength</option>
+        </select>
+      </label>
+      {difficultyIds[color] === 'custom' && (
+        <label className="flex items-center gap-2 text-sm text-slate-300 pl-6">
+          <span>Elo ({MIN_ELO}-{MAX_ELO})</span>
+          <input
+            type="number"
+            min={MIN_ELO}
+            max={MAX_ELO}
+            step={50}
+            value={customElos[color]}
+            onChange={e => {
+              const elo = Number(e.target.value);
+              setCustomElos(elos => ({ ...elos, ...Object.fromEntries(appliesTo.map(side => [side, elo])) }));
+            }}
+            className="ml-auto w-24 bg-slate-900 border border-slate-600 text-white rounded-md px-2 py-1"
+          />
+        </label>
+      )}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-8">
@@ -114,128 +687,405 @@ function App() {
             <Crown className="text-yellow-400" size={32} />
           </div>
           <p className="text-slate-300">Play against a sophisticated AI opponent</p>
+          <div className="inline-flex mt-4 bg-slate-800 border border-slate-700 rounded-lg p-1">
+            {VIEWS.map(({ id, name, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setView(id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-semibold transition-colors duration-200 ${
+                  view === id ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                <Icon size={16} />
+                {name}
+              </button>
+            ))}
+          </div>
         </div>
 
-        <div className="flex flex-col lg:flex-row gap-8 items-start justify-center">
-          {/* Game Board */}
-          <div className="flex flex-col items-center">
-            <ChessBoard
-              board={gameState.board}
-              selectedSquare={selectedSquare}
-              possibleMoves={possibleMoves}
-              onSquareClick={handleSquareClick}
-              isFlipped={false}
-            />
-          </div>
+        {view === 'puzzles' ? (
+          <PuzzleTrainer />
+        ) : (
+          <>
+            <div className="flex flex-col lg:flex-row gap-8 items-start justify-center">
+              {/* Game Board */}
+              <div className="flex flex-col items-center gap-3">
+                {renderClock(topColor)}
+                <div className="flex gap-2">
+                  {showEvaluation && (
+                    <EvaluationBar
+                      evaluation={liveEvaluation?.score ?? 0}
+                      mate={liveEvaluation?.mate ?? null}
+                      isFlipped={bottomColor === 'black'}
+                    />
+                  )}
+                  <ChessBoard
+                    board={shownBoard}
+                    selectedSquare={selectedSquare}
+                    possibleMoves={possibleMoves}
+                    onSquareClick={handleSquareClick}
+                    isFlipped={bottomColor === 'black'}
+                    promotion={pendingPromotion && { square: pendingPromotion.to, color: gameState.currentPlayer }}
+                    onPromotionSelect={handlePromotionSelect}
+                    onPromotionCancel={() => setPendingPromotion(null)}
+                    hint={canAssist ? hint : null}
+                    threatenedSquares={threatenedSquares}
+                    threatReply={showThreats && canAssist ? threatReply?.move : null}
+                  />
+                </div>
+                {renderClock(bottomColor)}
+                {viewedPly !== null && (
+                  <button
+                    onClick={() => setViewedPly(null)}
+                    className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg text-sm font-semibold transition-colors duration-200"
+                  >
+                    <CornerUpLeft size={16} />
+                    Back to current position
+                  </button>
+                )}
+              </div>
 
-          {/* Game Info Panel */}
-          <div className="bg-slate-800 rounded-xl p-6 shadow-xl border border-slate-700 min-w-[300px]">
-            <div className="space-y-6">
-              {/* Current Player */}
-              <div className="text-center">
-                <h2 className="text-lg font-semibold text-white mb-3">Current Turn</h2>
-                <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${
-                  gameState.currentPlayer === 'white' ? 'bg-white text-black' : 'bg-slate-900 text-white'
-                }`}>
-                  {gameState.currentPlayer === 'white' ? (
-                    <>
-                      <User size={20} />
-                      <span className="font-semibold">White (You)</span>
-                    </>
-                  ) : (
-                    <>
-                      <Cpu size={20} />
-                      <span className="font-semibold">Black (AI)</span>
+              {/* Game Info Panel */}
+              <div className="bg-slate-800 rounded-xl p-6 shadow-xl border border-slate-700 min-w-[300px]">
+                <div className="space-y-6">
+                  {/* Current Player */}
+                  <div className="text-center">
+                    <h2 className="text-lg font-semibold text-white mb-3">Current Turn</h2>
+                    <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${
+                      gameState.currentPlayer === 'white' ? 'bg-white text-black' : 'bg-slate-900 text-white'
+                    }`}>
+                      {isAIColor(gameState.currentPlayer) ? <Cpu size={20} /> : <User size={20} />}
+                      <span className="font-semibold">{getPlayerLabel(gameState.currentPlayer)}</span>
                       {isThinking && (
                         <div className="ml-2">
-                          <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                          <div className={`animate-spin rounded-full h-4 w-4 border-2 border-t-transparent ${
+                            gameState.currentPlayer === 'white' ? 'border-black' : 'border-white'
+                          }`}></div>
                         </div>
                       )}
-                    </>
+                    </div>
+                  </div>
+
+                  {/* Opening, while the game is still in the book */}
+                  {opening && (
+                    <div className="flex items-center gap-2 p-3 rounded-lg bg-slate-700/50 text-slate-200 text-sm">
+                      <BookOpen size={16} className="shrink-0" />
+                      <span className="font-mono text-slate-400">{opening.eco}</span>
+                      <span className="font-semibold">{opening.name}</span>
+                    </div>
                   )}
-                </div>
-              </div>
 
-              {/* Game Status */}
-              {getGameStatusMessage() && (
-                <div className="text-center">
-                  <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${
-                    gameState.isCheckmate ? 'bg-red-900 text-red-100' :
-                    gameState.isStalemate ? 'bg-yellow-900 text-yellow-100' :
-                    'bg-orange-900 text-orange-100'
-                  }`}>
-                    <AlertCircle size={20} />
-                    <span className="font-semibold">{getGameStatusMessage()}</span>
-                  </div>
-                </div>
-              )}
-
-              {/* AI Status */}
-              {isThinking && (
-                <div className="text-center">
-                  <div className="bg-blue-900 text-blue-100 p-3 rounded-lg">
-                    <div className="flex items-center justify-center gap-2">
-                      <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-300 border-t-transparent"></div>
-                      <span>AI is thinking...</span>
+                  {/* Game Status */}
+                  {getGameStatusMessage() && (
+                    <div className="text-center">
+                      <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${
+                        gameState.isCheckmate || gameState.gameOverReason === 'timeout' ? 'bg-red-900 text-red-100' :
+                        gameState.gameOverReason ? 'bg-yellow-900 text-yellow-100' :
+                        'bg-orange-900 text-orange-100'
+                      }`}>
+                        <AlertCircle size={20} />
+                        <span className="font-semibold">{getGameStatusMessage()}</span>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Game Controls */}
-              <div className="space-y-3">
-                <button
-                  onClick={resetGame}
-                  className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
-                >
-                  <RotateCcw size={20} />
-                  New Game
-                </button>
-              </div>
+                  )}
+
+                  {/* Engine failure */}
+                  {engineError && (
+                    <div className="flex items-center gap-2 p-3 rounded-lg bg-red-900 text-red-100 text-sm">
+                      <AlertCircle size={16} className="shrink-0" />
+                      <span className="flex-1">{engineError.task} failed: {engineError.message}</span>
+                      {engineError.task === 'AI move' && isAITurn && !isThinking && (
+                        <button
+                          onClick={() => {
+                            setEngineError(null);
+                            makeAIMove();
+                          }}
+                          className="px-2 py-1 rounded bg-red-700 hover:bg-red-600 font-semibold"
+                        >
+                          Retry
+                        </button>
+                      )}
+                      <button onClick={() => setEngineError(null)} className="text-red-300 hover:text-red-100" title="Dismiss">
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )}
 
-              {/* Move History */}
-              <div>
-                <h3 className="text-white font-semibold mb-2">Recent Moves</h3>
-                <div className="bg-slate-900 rounded-lg p-3 h-32 overflow-y-auto">
-                  {gameState.moveHistory.length === 0 ? (
-                    <p className="text-slate-400 text-sm">No moves yet</p>
-                  ) : (
-                    <div className="space-y-1">
-                      {gameState.moveHistory.slice(-6).map((move, index) => (
-                        <div key={index} className="text-sm text-slate-300 font-mono">
-                          {Math.floor(index / 2) + 1}. {move.piece.type} {String.fromCharCode(97 + move.from.col)}{8 - move.from.row} → {String.fromCharCode(97 + move.to.col)}{8 - move.to.row}
+                  {/* AI Status */}
+                  {(isThinking || searchInfo) && (
+                    <div>
+                      <div className="bg-blue-900 text-blue-100 p-3 rounded-lg space-y-2">
+                        <div className="flex items-center justify-center gap-2">
+                          {isThinking && (
+                            <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-300 border-t-transparent"></div>
+                          )}
+                          <span>{isThinking ? 'AI is thinking...' : 'Last AI search'}</span>
                         </div>
-                      ))}
+                        {searchInfo && (
+                          <div className="bg-blue-950/60 rounded-md p-2 text-sm space-y-1">
+                            <div className="flex justify-between font-mono">
+                              <span>{searchInfo.fromTablebase ? 'Tablebase' : `Depth ${searchInfo.iteration.depth}`}</span>
+                              <span>{searchInfo.iteration.nodes.toLocaleString()} nodes</span>
+                              <span>{formatScore(searchInfo.iteration)}</span>
+                            </div>
+                            <div className="font-mono text-blue-200/80 truncate" title={searchInfo.pv.join(' ')}>
+                              {searchInfo.pv.join(' ')}
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   )}
-                </div>
-              </div>
 
-              {/* Game Features */}
-              <div>
-                <h3 className="text-white font-semibold mb-2">Features</h3>
-                <div className="space-y-2 text-sm text-slate-300">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                    <span>Full chess rules implemented</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
-                    <span>Minimax AI with alpha-beta pruning</span>
+                  {/* Engine's best line for the live position */}
+                  {showEvaluation && (
+                    <div className="bg-slate-900 text-slate-200 p-3 rounded-lg text-sm space-y-1">
+                      <div className="flex justify-between font-mono">
+                        <span className="flex items-center gap-2 font-sans font-semibold">
+                          <Activity size={16} />
+                          Best line
+                        </span>
+                        {liveEvaluation && (
+                          <>
+                            <span>Depth {liveEvaluation.depth}</span>
+                            <span>{formatScore(liveEvaluation)}</span>
+                          </>
+                        )}
+                      </div>
+                      <div className="font-mono text-slate-400 truncate" title={liveAnalysis?.pv.join(' ')}>
+                        {liveAnalysis ? liveAnalysis.pv.join(' ') || 'Game over' : 'Analyzing...'}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* What the opponent is threatening */}
+                  {showThreats && canAssist && !gameState.gameOverReason && (
+                    <div className="flex items-center gap-2 bg-slate-900 text-slate-200 p-3 rounded-lg text-sm">
+                      <ShieldAlert size={16} className="shrink-0 text-red-400" />
+                      <span>
+                        {threatenedSquares.length === 0
+                          ? 'No pieces at risk'
+                          : `${threatenedSquares.length} piece${threatenedSquares.length === 1 ? '' : 's'} at risk`}
+                        {threatReply && (
+                          <>
+                            {'; if you passed: '}
+                            <span className="font-mono font-semibold">{threatReply.san}</span>
+                          </>
+                        )}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Game Controls */}
+                  <div className="space-y-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                      <Timer size={16} />
+                      <span>Time control</span>
+                      <select
+                        value={timeControlId}
+                        onChange={e => {
+                          setTimeControlId(e.target.value);
+                          resetGame(e.target.value);
+                        }}
+                        className="ml-auto bg-slate-900 border border-slate-600 text-white rounded-md px-2 py-1"
+                      >
+                        <option value="untimed">Untimed</option>
+                        {TIME_CONTROLS.map(control => (
+                          <option key={control.id} value={control.id}>{control.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                      <Users size={16} />
+                      <span>Play as</span>
+                      <select
+                        value={gameMode}
+                        onChange={e => {
+                          const mode = e.target.value as GameMode;
+                          setGameMode(mode);
+                          resetGame(timeControlId, mode);
+                        }}
+                        className="ml-auto bg-slate-900 border border-slate-600 text-white rounded-md px-2 py-1"
+                      >
+                        {GAME_MODES.map(mode => (
+                          <option key={mode.id} value={mode.id}>{mode.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                      <Activity size={16} />
+                      <span>Show evaluation</span>
+                      <input
+                        type="checkbox"
+                        checked={showEvaluation}
+                        onChange={e => setShowEvaluation(e.target.checked)}
+                        className="ml-auto h-4 w-4 accent-blue-500"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                      <ShieldAlert size={16} />
+                      <span>Show threats</span>
+                      <input
+                        type="checkbox"
+                        checked={showThreats}
+                        onChange={e => setShowThreats(e.target.checked)}
+                        className="ml-auto h-4 w-4 accent-blue-500"
+                      />
+                    </label>
+                    {/* One strength for the AI opponent, or one per side in AI vs AI */}
+                    {humanColor
+                      ? renderStrengthSetting('Difficulty', humanColor === 'white' ? 'black' : 'white', ['white', 'black'])
+                      : (['white', 'black'] as const).map(color =>
+                          renderStrengthSetting(`${color === 'white' ? 'White' : 'Black'} AI`, color, [color])
+                        )}
+                    <div className="flex items-center gap-2 text-sm text-slate-300">
+                      <BookOpen size={16} className="shrink-0" />
+                      <span className="shrink-0">Opening book</span>
+                      {bookName ? (
+                        <span className="ml-auto flex items-center gap-1 min-w-0">
+                          <span className="truncate text-white" title={bookName}>{bookName}</span>
+                          <button onClick={unloadBook} className="text-slate-400 hover:text-white" title="Use the built-in book">
+                            <X size={16} />
+                          </button>
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => bookInputRef.current?.click()}
+                          className="ml-auto flex items-center gap-1 bg-slate-900 border border-slate-600 hover:bg-slate-700 text-white rounded-md px-2 py-1"
+                          title="Load a Polyglot book; the built-in book covers positions it doesn't"
+                        >
+                          <Upload size={14} />
+                          Load .bin
+                        </button>
+                      )}
+                      <input
+                        ref={bookInputRef}
+                        type="file"
+                        accept=".bin"
+                        className="hidden"
+                        onChange={e => {
+                          const file = e.target.files?.[0];
+                          // Cleared so picking the same file again still loads it
+                          e.target.value = '';
+                          if (file) void loadBook(file);
+                        }}
+                      />
+                    </div>
+                    <button
+                      onClick={() => resetGame()}
+                      className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                    >
+                      <RotateCcw size={20} />
+                      New Game
+                    </button>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button
+                        onClick={takeBackMove}
+                        disabled={!canTakeBack || !canUndoTurn}
+                        className="flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                      >
+                        <Undo2 size={20} />
+                        Undo
+                      </button>
+                      <button
+                        onClick={redoMove}
+                        disabled={!canTakeBack || !game.canRedo()}
+                        className="flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                      >
+                        <Redo2 size={20} />
+                        Redo
+                      </button>
+                    </div>
+                    {humanColor && (
+                      <button
+                        onClick={showHint}
+                        disabled={!canAssist || isThinking || isFindingHint || !!gameState.gameOverReason}
+                        className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                      >
+                        <Lightbulb size={20} />
+                        {isFindingHint ? 'Finding a hint...' : 'Hint'}
+                        {hintsUsed > 0 && <span className="text-sm font-normal text-slate-400">({hintsUsed} used)</span>}
+                      </button>
+                    )}
+                    {claimableDraw && (
+                      <button
+                        onClick={claimDraw}
+                        className="w-full flex items-center justify-center gap-2 bg-yellow-700 hover:bg-yellow-600 text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                      >
+                        <Handshake size={20} />
+                        {claimableDraw === 'threefold-repetition' ? 'Claim Draw (repetition)' : 'Claim Draw (50 moves)'}
+                      </button>
+                    )}
+                    <button
+                      onClick={downloadPgn}
+                      disabled={gameState.moveHistory.length === 0}
+                      className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                    >
+                      <Download size={20} />
+                      Export PGN
+                    </button>
+                    {gameState.gameOverReason && !analysis && (
+                      <button
+                        onClick={runAnalysis}
+                        disabled={analysisProgress !== null || gameState.moveHistory.length === 0}
+                        className="w-full flex items-center justify-center gap-2 bg-blue-700 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200"
+                      >
+                        <Microscope size={20} />
+                        {analysisProgress === null ? 'Analyze Game' : `Analyzing... ${Math.round(analysisProgress * 100)}%`}
+                      </button>
+                    )}
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
-                    <span>Position evaluation tables</span>
+
+                  {/* Move History */}
+                  <div>
+                    <h3 className="text-white font-semibold mb-2">Moves</h3>
+                    <MoveList
+                      moves={gameState.moveHistory}
+                      firstMoveNumber={startingPosition.fullmoveNumber}
+                      firstColor={startingPosition.currentPlayer}
+                      shownPly={viewedPly ?? gameState.moveHistory.length}
+                      onSelectPly={viewPly}
+                    />
                   </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-yellow-400 rounded-full"></div>
-                    <span>Check, checkmate, stalemate detection</span>
+
+                  {/* Game Features */}
+                  <div>
+                    <h3 className="text-white font-semibold mb-2">Features</h3>
+                    <div className="space-y-2 text-sm text-slate-300">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-green-400 rounded-full"></div>
+                        <span>Full chess rules implemented</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+                        <span>Iterative-deepening alpha-beta AI</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
+                        <span>Position evaluation tables</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-yellow-400 rounded-full"></div>
+                        <span>Checkmate, stalemate and draw rule detection</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-emerald-400 rounded-full"></div>
+                        <span>Chess clocks with increment and delay</span>
+                      </div>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
-        </div>
+
+            {/* Post-game analysis */}
+            {analysis && (
+              <div className="mt-8">
+                <GameAnalysisPanel analysis={analysis} selectedPly={viewedPly} onSelectPly={viewPly} />
+              </div>
+            )}
+          </>
+        )}
 
         {/* Instructions */}
         <div className="mt-12 text-center">
@@ -245,10 +1095,12 @@ function App() {
               <div className="space-y-2">
                 <p><strong>Click a piece</strong> to select it and see possible moves</p>
                 <p><strong>Click a highlighted square</strong> to move your piece</p>
+                <p><strong>Click a move or use the arrow keys</strong> to look back through the game</p>
               </div>
               <div className="space-y-2">
-                <p><strong>You play as White</strong> and move first</p>
-                <p><strong>The AI plays as Black</strong> and uses advanced algorithms</p>
+                <p><strong>Choose White, Black or a random side</strong> before you start</p>
+                <p><strong>Pick AI vs AI</strong> to watch the engine play itself</p>
+                <p><strong>Ask for a hint or show threats</strong> when you're unsure what to play</p>
               </div>
             </div>
           </div>
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { ChessAI, getStrengthLimits } from './ChessAI';
+import { ChessGame } from './ChessGame';
+import { buildTablebases } from './tablebase';
+import { moveToUci } from './utils';
+
+const bestMove = (fen: string, maxDepth: number): string => {
+  const move = new ChessAI().getBestMove(new ChessGame(fen), { maxDepth });
+  return move ? moveToUci(move) : '';
+};
+
+describe('ChessAI', () => {
+  it('does not grab a defended pawn with the queen at the horizon', () => {
+    for (const depth of [1, 2, 3]) {
+      expect(bestMove('6k1/8/8/8/q3P3/3P4/8/6K1 b - - 0 1', depth)).not.toBe('a4e4');
+    }
+  });
+
+  it('moves a piece attacked by a pawn even at depth 1', () => {
+    expect(bestMove('r5k1/8/8/4n3/3P4/8/8/6K1 b - - 0 1', 1).slice(0, 2)).toBe('e5');
+  });
+
+  it('takes a hanging queen', () => {
+    expect(bestMove('6k1/8/2p5/3Q4/8/8/8/6K1 b - - 0 1', 1)).toBe('c6d5');
+  });
+
+  it('searches for whichever side is to move', () => {
+    expect(bestMove('6k1/8/8/8/3q4/2P5/8/6K1 w - - 0 1', 1)).toBe('c3d4');
+    const { iterations } = new ChessAI().search(new ChessGame('7K/8/6k1/P7/8/8/8/3r4 w - - 0 1'), { maxDepth: 4 });
+    expect(iterations[iterations.length - 1].mate).toBe(-1);
+  });
+
+  it('mates instead of stalemating and reports the mate distance', () => {
+    const game = new ChessGame('8/8/8/8/6q1/8/5k2/7K b - - 0 1');
+    const { bestMove, iterations } = new ChessAI().search(game, { maxDepth: 4 });
+    game.applyMove(bestMove!);
+    expect(game.getGameState().gameOverReason).toBe('checkmate');
+    expect(iterations[iterations.length - 1].mate).toBe(1);
+  });
+
+  it('sees that it is getting mated', () => {
+    // Both Kg8 and a4 allow Rd8#
+    const { iterations } = new ChessAI().search(new ChessGame('7k/8/6K1/p7/8/8/8/3R4 b - - 0 1'), { maxDepth: 4 });
+    expect(iterations[iterations.length - 1].mate).toBe(-1);
+  });
+
+  it('analyzes forced moves and finished games', () => {
+    const ai = new ChessAI();
+    // Kg8 is black's only move, and then Ra8 mates
+    const game = new ChessGame('7k/R7/6K1/8/8/8/8/8 b - - 0 1');
+    const analysis = ai.analyze(game, { maxDepth: 3 });
+    expect(analysis.mate).toBe(-1);
+    expect(game.getSanLine(analysis.pv)).toEqual(['Kg8', 'Ra8#']);
+    expect(game.toFen()).toBe('7k/R7/6K1/8/8/8/8/8 b - - 0 1');
+
+    const mated = ai.analyze(new ChessGame('R5k1/5ppp/8/8/8/8/8/6K1 b - - 1 1'));
+    expect(mated).toMatchObject({ depth: 0, pv: [] });
+    expect(mated.score).toBeLessThan(-50_000);
+  });
+
+  it('plays tablebase endings perfectly for both sides', () => {
+    buildTablebases(['KRK']);
+    // Mate in 16, the longest a rook needs
+    const game = new ChessGame('K7/1R6/2k5/8/8/8/8/8 w - - 0 1');
+    const ai = new ChessAI();
+    const first = ai.search(game, { maxDepth: 1 });
+    expect(first.fromTablebase).toBe(true);
+    expect(first.iterations[0].mate).toBe(16);
+
+    let plies = 0;
+    while (!game.getGameState().gameOverReason) {
+      game.applyMove(ai.getBestMove(game, { maxDepth: 1 })!);
+      plies++;
+    }
+    expect(game.getGameState().gameOverReason).toBe('checkmate');
+    expect(plies).toBe(31);
+  });
+
+  it('forgets noisy scores before a clean search', () => {
+    const fen = 'r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N2N2/PP2BPPP/R1BQK2R b KQ - 1 8';
+    const { score, nodes, pv } = new ChessAI().analyze(new ChessGame(fen), { maxDepth: 3 });
+
+    const ai = new ChessAI();
+    ai.search(new ChessGame(fen), { maxDepth: 3, evalNoise: 250, useBook: false });
+    expect(ai.analyze(new ChessGame(fen), { maxDepth: 3 })).toMatchObject({ score, nodes, pv });
+  });
+
+  it('interpolates search limits between rating points', () => {
+    const weak = getStrengthLimits(800);
+    const strong = getStrengthLimits(1200);
+    const between = getStrengthLimits(1000);
+    expect(between.evalNoise).toBeLessThan(weak.evalNoise!);
+    expect(between.evalNoise).toBeGreaterThan(strong.evalNoise!);
+    expect(getStrengthLimits(100)).toEqual(getStrengthLimits(400));
+  });
+
+  it('only blunders into moves within the margin', () => {
+    const move = new ChessAI(() => 0).getBestMove(new ChessGame('6k1/8/2p5/3Q4/8/8/8/6K1 b - - 0 1'), {
+      maxDepth: 2,
+      blunderChance: 1,
+      blunderMargin: 50
+    });
+    expect(move && moveToUci(move)).toBe('c6d5');
+  });
+});
@@ -1,217 +1,543 @@
 import { ChessGame } from './ChessGame';
-import { Board, Piece, Move, Color, Position } from './types';
-import { copyBoard } from './utils';
+import { Bound, TranspositionTable } from './TranspositionTable';
+import { OpeningBook, pickBookMove } from './openingBook';
+import { DEFAULT_EVALUATION_WEIGHTS, EvaluationWeights, PIECE_VALUES, evaluate } from './evaluation';
+import { MAX_TABLEBASE_PIECES, TablebaseResult, probeTablebase } from './tablebase';
+import { Color, PieceType, Move, ReadonlyBoard, SearchIteration, SearchLimits, SearchResult } from './types';
+import { movesEqual } from './utils';
+
+export interface DifficultyLevel {
+  id: string;
+  name: string;
+  // Rough Elo-like strength, or null for the unrestricted engine
+  elo: number | null;
+  limits: SearchLimits;
+}
+
+export const MIN_ELO = 400;
+export const MAX_ELO = 2000;
+
+// Hand-tuned settings at a few ratings; ratings in between interpolate.
+// Weaker play searches less, misjudges positions by up to `evalNoise`
+// centipawns and now and then picks a plausible second-best move
+type StrengthLimits = Required<Omit<SearchLimits, 'useBook'>>;
+
+const STRENGTH_CURVE: { elo: number; limits: StrengthLimits }[] = [
+  { elo: 400, limits: { maxDepth: 1, timeMs: 300, evalNoise: 250, blunderChance: 0.5, blunderMargin: 400 } },
+  { elo: 800, limits: { maxDepth: 2, timeMs: 500, evalNoise: 150, blunderChance: 0.3, blunderMargin: 250 } },
+  { elo: 1200, limits: { maxDepth: 2, timeMs: 1000, evalNoise: 80, blunderChance: 0.15, blunderMargin: 150 } },
+  { elo: 1600, limits: { maxDepth: 3, timeMs: 2000, evalNoise: 30, blunderChance: 0.07, blunderMargin: 80 } },
+  { elo: 2000, limits: { maxDepth: 5, timeMs: 4000, evalNoise: 0, blunderChance: 0.02, blunderMargin: 40 } }
+];
+
+export const getStrengthLimits = (elo: number): SearchLimits => {
+  const rating = Math.min(MAX_ELO, Math.max(MIN_ELO, elo));
+  const upper = STRENGTH_CURVE.findIndex(point => point.elo >= rating);
+  const high = STRENGTH_CURVE[upper];
+  const low = STRENGTH_CURVE[Math.max(0, upper - 1)];
+  const t = high.elo === low.elo ? 0 : (rating - low.elo) / (high.elo - low.elo);
+  const lerp = (key: keyof StrengthLimits) => low.limits[key] + (high.limits[key] - low.limits[key]) * t;
+
+  return {
+    maxDepth: Math.round(lerp('maxDepth')),
+    timeMs: Math.round(lerp('timeMs')),
+    evalNoise: Math.round(lerp('evalNoise')),
+    blunderChance: lerp('blunderChance'),
+    blunderMargin: Math.round(lerp('blunderMargin'))
+  };
+};
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = [
+  { id: 'beginner', name: 'Beginner', elo: 400, limits: getStrengthLimits(400) },
+  { id: 'novice', name: 'Novice', elo: 800, limits: getStrengthLimits(800) },
+  { id: 'intermediate', name: 'Intermediate', elo: 1200, limits: getStrengthLimits(1200) },
+  { id: 'advanced', name: 'Advanced', elo: 1600, limits: getStrengthLimits(1600) },
+  { id: 'expert', name: 'Expert', elo: 2000, limits: getStrengthLimits(2000) },
+  { id: 'maximum', name: 'Maximum', elo: null, limits: { maxDepth: 8, timeMs: 8000 } }
+];
+
+// Being mated `ply` plies from the root scores -(MATE_SCORE - ply), so
+// nearer mates score higher than distant ones; anything beyond
+// MATE_THRESHOLD is a forced mate
+const MATE_SCORE = 100_000;
+const MATE_THRESHOLD = MATE_SCORE - 1_000;
+
+// Attacker ranks for MVV-LVA; cheaper attackers capture first
+const ORDERING_RANKS: Record<PieceType, number> = { pawn: 0, knight: 1, bishop: 2, rook: 3, queen: 4, king: 5 };
+
+const countPieces = (board: ReadonlyBoard): number => {
+  return board.reduce((count, row) => count + row.filter(piece => piece !== null).length, 0);
+};
 
 export class ChessAI {
   private readonly maxDepth = 4;
   
-  // Piece values
-  private readonly pieceValues = {
-    pawn: 100,
-    knight: 320,
-    bishop: 330,
-    rook: 500,
-    queen: 900,
-    king: 20000
-  };
+  // The search stops at this timestamp or once `isStopped` returns true,
+  // and sets `timedOut` when it does
+  private deadline = Infinity;
+  private isStopped: (() => boolean) | null = null;
+  private timedOut = false;
+  private nodes = 0;
+  // Kept between searches; positions searched for one move are often
+  // reached again while thinking about the next
+  private readonly transpositionTable = new TranspositionTable();
+  // Quiet moves that caused a cutoff, two per ply, and a score per color,
+  // from and to square that grows with every cutoff; both order quiet moves
+  private killers: (Move | null)[][] = [];
+  private history = new Int32Array(2 * 64 * 64);
+  // Evaluation noise for weakened levels; the seed changes every search
+  private evalNoise = 0;
+  private noiseSeed = 0;
+  private openingBook: OpeningBook | null = null;
+  // Set when captures could reach an ending with a tablebase
+  private probeTablebases = false;
 
-  // Position evaluation tables
-  private readonly pawnTable = [
-    [0,  0,  0,  0,  0,  0,  0,  0],
-    [50, 50, 50, 50, 50, 50, 50, 50],
-    [10, 10, 20, 30, 30, 20, 10, 10],
-    [5,  5, 10, 25, 25, 10,  5,  5],
-    [0,  0,  0, 20, 20,  0,  0,  0],
-    [5, -5,-10,  0,  0,-10, -5,  5],
-    [5, 10, 10,-20,-20, 10, 10,  5],
-    [0,  0,  0,  0,  0,  0,  0,  0]
-  ];
-
-  private readonly knightTable = [
-    [-50,-40,-30,-30,-30,-30,-40,-50],
-    [-40,-20,  0,  0,  0,  0,-20,-40],
-    [-30,  0, 10, 15, 15, 10,  0,-30],
-    [-30,  5, 15, 20, 20, 15,  5,-30],
-    [-30,  0, 15, 20, 20, 15,  0,-30],
-    [-30,  5, 10, 15, 15, 10,  5,-30],
-    [-40,-20,  0,  5,  5,  0,-20,-40],
-    [-50,-40,-30,-30,-30,-30,-40,-50]
-  ];
-
-  private readonly bishopTable = [
-    [-20,-10,-10,-10,-10,-10,-10,-20],
-    [-10,  0,  0,  0,  0,  0,  0,-10],
-    [-10,  0,  5, 10, 10,  5,  0,-10],
-    [-10,  5,  5, 10, 10,  5,  5,-10],
-    [-10,  0, 10, 10, 10, 10,  0,-10],
-    [-10, 10, 10, 10, 10, 10, 10,-10],
-    [-10,  5,  0,  0,  0,  0,  5,-10],
-    [-20,-10,-10,-10,-10,-10,-10,-20]
-  ];
-
-  private readonly rookTable = [
-    [0,  0,  0,  0,  0,  0,  0,  0],
-    [5, 10, 10, 10, 10, 10, 10,  5],
-    [-5,  0,  0,  0,  0,  0,  0, -5],
-    [-5,  0,  0,  0,  0,  0,  0, -5],
-    [-5,  0,  0,  0,  0,  0,  0, -5],
-    [-5,  0,  0,  0,  0,  0,  0, -5],
-    [-5,  0,  0,  0,  0,  0,  0, -5],
-    [0,  0,  0,  5,  5,  0,  0,  0]
-  ];
-
-  private readonly queenTable = [
-    [-20,-10,-10, -5, -5,-10,-10,-20],
-    [-10,  0,  0,  0,  0,  0,  0,-10],
-    [-10,  0,  5,  5,  5,  5,  0,-10],
-    [-5,  0,  5,  5,  5,  5,  0, -5],
-    [0,  0,  5,  5,  5,  5,  0, -5],
-    [-10,  5,  5,  5,  5,  5,  0,-10],
-    [-10,  0,  5,  0,  0,  0,  0,-10],
-    [-20,-10,-10, -5, -5,-10,-10,-20]
-  ];
-
-  private readonly kingMiddleGameTable = [
-    [-30,-40,-40,-50,-50,-40,-40,-30],
-    [-30,-40,-40,-50,-50,-40,-40,-30],
-    [-30,-40,-40,-50,-50,-40,-40,-30],
-    [-30,-40,-40,-50,-50,-40,-40,-30],
-    [-20,-30,-30,-40,-40,-30,-30,-20],
-    [-10,-20,-20,-20,-20,-20,-20,-10],
-    [20, 20,  0,  0,  0,  0, 20, 20],
-    [20, 30, 10,  0,  0, 10, 30, 20]
-  ];
-
-  getBestMove(game: ChessGame): Move | null {
-    const gameState = game.getGameState();
-    const legalMoves = game.getAllLegalMoves('black');
-    
-    if (legalMoves.length === 0) {
+  constructor(
+    private readonly random: () => number = Math.random,
+    private readonly weights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+  ) {}
+
+  // While the game is in the book, book moves are played without searching
+  setOpeningBook(book: OpeningBook | null): void {
+    this.openingBook = book;
+  }
+
+  // Lets a search be cut short from outside, such as by a UCI `stop`; the
+  // best move of the last completed iteration is played
+  setStopCheck(isStopped: (() => boolean) | null): void {
+    this.isStopped = isStopped;
+  }
+
+  getBestMove(game: ChessGame, limits: SearchLimits = {}): Move | null {
+    return this.search(game, limits).bestMove;
+  }
+
+  // Iterative deepening for the side to move: searches one ply deeper each
+  // iteration until `maxDepth` or the time limit is reached, and plays the
+  // best move of the last iteration that completed. Scores are from the
+  // point of view of the side to move
+  search(game: ChessGame, limits: SearchLimits = {}, onIteration?: (iteration: SearchIteration) => void): SearchResult {
+    this.killers = [];
+    this.history.fill(0);
+
+    const legalMoves = this.orderMoves(game.getAllLegalMoves(game.getCurrentPlayer()), null, 0);
+    const result: SearchResult = { bestMove: legalMoves[0] ?? null, iterations: [] };
+    if (legalMoves.length <= 1) {
+      return result;
+    }
+
+    const book = limits.useBook === false ? null : this.openingBook;
+    const bookMove = book && pickBookMove(book.getMoves(game), this.random);
+    if (bookMove) {
+      return { ...result, bestMove: bookMove, fromBook: true };
+    }
+
+    const tablebaseResult = this.searchTablebase(game, legalMoves);
+    if (tablebaseResult) {
+      onIteration?.(tablebaseResult.iterations[0]);
+      return tablebaseResult;
+    }
+
+    const maxDepth = limits.maxDepth ?? (limits.timeMs === undefined ? this.maxDepth : 64);
+    const timeMs = limits.timeMs ?? Infinity;
+    const startTime = Date.now();
+    this.deadline = startTime + timeMs;
+    this.timedOut = false;
+    this.nodes = 0;
+    this.probeTablebases = countPieces(game.getBoardView()) <= MAX_TABLEBASE_PIECES + 2;
+
+    // Noisy scores mustn't leak from one search into the next, whether the
+    // noise was in the earlier search or is in this one
+    const previousNoise = this.evalNoise;
+    this.evalNoise = limits.evalNoise ?? 0;
+    this.noiseSeed = Math.floor(this.random() * 0x100000000);
+    if (this.evalNoise > 0 || previousNoise > 0) {
+      this.transpositionTable.clear();
+    }
+
+    // Picking a second-best move needs an exact score for every root move
+    const blunderChance = limits.blunderChance ?? 0;
+    let rootScores: Map<Move, number> | null = null;
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const pv: Move[] = [];
+      const scores = blunderChance > 0 ? new Map<Move, number>() : null;
+      const score = this.searchRoot(game, legalMoves, depth, pv, scores);
+      if (this.timedOut) {
+        break;
+      }
+      rootScores = scores;
+
+      const mate = this.getMateIn(score);
+      const iteration: SearchIteration = { depth, score, mate, nodes: this.nodes, timeMs: Date.now() - startTime, pv };
+      result.bestMove = pv[0];
+      result.iterations.push(iteration);
+      onIteration?.(iteration);
+
+      // A mate within the full-width depth can't be beaten by searching deeper
+      if (mate !== null && MATE_SCORE - Math.abs(score) <= depth) {
+        break;
+      }
+
+      // The next iteration takes several times longer, so don't start one
+      // that is unlikely to finish
+      if (iteration.timeMs > timeMs / 2) {
+        break;
+      }
+
+      // Search the best move first next time; it tightens alpha-beta bounds
+      legalMoves.sort((a, b) => (a === pv[0] ? -1 : b === pv[0] ? 1 : 0));
+    }
+
+    if (rootScores && this.random() < blunderChance) {
+      result.bestMove = this.pickPlausibleMove(rootScores, limits.blunderMargin ?? 0) ?? result.bestMove;
+    }
+
+    return result;
+  }
+
+  // The score and principal variation of the position for the side to
+  // move, at full strength and without the opening book. Unlike search(),
+  // this also scores finished games and positions with a single move
+  analyze(game: ChessGame, limits: SearchLimits = {}, onIteration?: (iteration: SearchIteration) => void): SearchIteration {
+    const legalMoves = game.getAllLegalMoves(game.getCurrentPlayer());
+    if (legalMoves.length === 0 || game.getGameOverReason()) {
+      const score = legalMoves.length === 0 && game.isKingInCheck() ? -MATE_SCORE : 0;
+      return { depth: 0, score, mate: this.getMateIn(score), nodes: 0, timeMs: 0, pv: [] };
+    }
+
+    const { maxDepth, timeMs } = limits;
+    const { iterations } = this.search(game, { maxDepth, timeMs, useBook: false }, onIteration);
+    if (iterations.length > 0) {
+      return iterations[iterations.length - 1];
+    }
+
+    // The only move scores whatever the position after it does, one ply
+    // further from a mate
+    const [move] = legalMoves;
+    game.makeMoveUnchecked(move);
+    const reply = this.analyze(game, limits);
+    game.unmakeMove();
+    const score = Math.abs(reply.score) >= MATE_THRESHOLD ? -reply.score + Math.sign(reply.score) : -reply.score;
+    const iteration: SearchIteration = { ...reply, score, mate: this.getMateIn(score), pv: [move, ...reply.pv] };
+    onIteration?.(iteration);
+    return iteration;
+  }
+
+  // In a tablebase ending every move's outcome is known, so the best one
+  // is picked without searching: the quickest mate when winning, and the
+  // longest resistance when losing. Returns null in other positions
+  private searchTablebase(game: ChessGame, legalMoves: Move[]): SearchResult | null {
+    const startTime = Date.now();
+    if (!probeTablebase(game.getBoardView(), game.getCurrentPlayer())) {
       return null;
     }
 
     let bestMove: Move | null = null;
+    let bestScore = -Infinity;
+    for (const move of legalMoves) {
+      game.makeMoveUnchecked(move);
+      // Captures and minor promotions can leave a draw without a table
+      const result = probeTablebase(game.getBoardView(), game.getCurrentPlayer());
+      game.unmakeMove();
+
+      const score = result ? -this.scoreTablebaseResult(result, 1) : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+    }
+
+    const iteration: SearchIteration = {
+      depth: 0,
+      score: bestScore,
+      mate: this.getMateIn(bestScore),
+      nodes: legalMoves.length,
+      timeMs: Date.now() - startTime,
+      pv: [bestMove!]
+    };
+    return { bestMove, iterations: [iteration], fromTablebase: true };
+  }
+
+  // Scores a tablebase result like a search `ply` plies from the root would
+  private scoreTablebaseResult({ outcome, dtm }: TablebaseResult, ply: number): number {
+    if (outcome === 'draw') return 0;
+    const score = MATE_SCORE - (ply + dtm!);
+    return outcome === 'win' ? score : -score;
+  }
+
+  // A random move other than the best that loses at most `margin`
+  // centipawns and walks into no forced mate, like a human's near miss
+  private pickPlausibleMove(rootScores: Map<Move, number>, margin: number): Move | null {
+    const bestScore = Math.max(...rootScores.values());
+    const candidates = [...rootScores]
+      .filter(([, score]) => score < bestScore && score >= bestScore - margin && score > -MATE_THRESHOLD)
+      .map(([move]) => move);
+    return candidates.length > 0 ? candidates[Math.floor(this.random() * candidates.length)] : null;
+  }
+
+  // With `scores`, every root move gets a full window and its exact score
+  private searchRoot(game: ChessGame, legalMoves: Move[], depth: number, pv: Move[], scores: Map<Move, number> | null): number {
     let bestValue = -Infinity;
 
     for (const move of legalMoves) {
-      const tempGame = this.createGameCopy(game);
-      tempGame.applyMove(move);
-      
-      const value = this.minimax(tempGame, this.maxDepth - 1, -Infinity, Infinity, false);
-      
+      game.makeMoveUnchecked(move);
+      const childPv: Move[] = [];
+      const value = -this.negamax(game, depth - 1, 1, -Infinity, scores ? Infinity : -bestValue, childPv);
+      game.unmakeMove();
+      if (this.timedOut) {
+        break;
+      }
+      scores?.set(move, value);
+
       if (value > bestValue) {
         bestValue = value;
-        bestMove = move;
+        pv.splice(0, pv.length, move, ...childPv);
       }
     }
 
-    return bestMove;
+    return bestValue;
   }
 
-  private minimax(game: ChessGame, depth: number, alpha: number, beta: number, isMaximizing: boolean): number {
-    const gameState = game.getGameState();
-    
-    if (depth === 0 || gameState.isCheckmate || gameState.isStalemate) {
-      return this.evaluatePosition(gameState.board);
+  // Alpha-beta in negamax form: every score is from the point of view of
+  // the side to move, so a child's score is negated for its parent
+  private negamax(game: ChessGame, depth: number, ply: number, alpha: number, beta: number, pv: Move[]): number {
+    if (this.isOutOfTime()) {
+      return 0;
     }
+    this.nodes++;
 
-    const currentPlayer = isMaximizing ? 'black' : 'white';
-    const legalMoves = game.getAllLegalMoves(currentPlayer);
+    // Repetition, the move rules and dead positions are all draws, and
+    // the engine takes a draw it could claim as one
+    if (game.getGameOverReason() || game.getClaimableDraw()) {
+      return 0;
+    }
+
+    if (this.probeTablebases) {
+      const result = probeTablebase(game.getBoardView(), game.getCurrentPlayer());
+      if (result) {
+        pv.splice(0, pv.length);
+        return this.scoreTablebaseResult(result, ply);
+      }
+    }
 
-    if (isMaximizing) {
-      let maxEval = -Infinity;
-      
-      for (const move of legalMoves) {
-        const tempGame = this.createGameCopy(game);
-        tempGame.applyMove(move);
-        
-        const eval_ = this.minimax(tempGame, depth - 1, alpha, beta, false);
-        maxEval = Math.max(maxEval, eval_);
-        alpha = Math.max(alpha, eval_);
-        
-        if (beta <= alpha) {
-          break; // Alpha-beta pruning
-        }
+    if (depth === 0) {
+      return this.quiesce(game, ply, 0, alpha, beta);
+    }
+
+    // A result from an earlier search at least as deep can settle this
+    // node, or at least narrow the window
+    const key = game.getZobristKey();
+    const entry = this.transpositionTable.probe(key);
+    if (entry && entry.depth >= depth) {
+      const score = this.scoreFromTable(entry.score, ply);
+      if (entry.bound === 'exact') {
+        pv.splice(0, pv.length, ...(entry.bestMove ? [entry.bestMove] : []));
+        return score;
+      }
+      if (entry.bound === 'lower') {
+        alpha = Math.max(alpha, score);
+      } else {
+        beta = Math.min(beta, score);
       }
-      
-      return maxEval;
-    } else {
-      let minEval = Infinity;
-      
-      for (const move of legalMoves) {
-        const tempGame = this.createGameCopy(game);
-        tempGame.applyMove(move);
-        
-        const eval_ = this.minimax(tempGame, depth - 1, alpha, beta, true);
-        minEval = Math.min(minEval, eval_);
-        beta = Math.min(beta, eval_);
-        
-        if (beta <= alpha) {
-          break; // Alpha-beta pruning
-        }
+      if (alpha >= beta) {
+        return score;
       }
-      
-      return minEval;
     }
+    const originalAlpha = alpha;
+
+    const legalMoves = this.orderMoves(game.getAllLegalMoves(game.getCurrentPlayer()), entry?.bestMove ?? null, ply);
+
+    // Moves made unchecked leave checkmate and stalemate for us to find
+    if (legalMoves.length === 0) {
+      return game.isKingInCheck() ? -(MATE_SCORE - ply) : 0;
+    }
+
+    let bestValue = -Infinity;
+    for (const move of legalMoves) {
+      game.makeMoveUnchecked(move);
+      const childPv: Move[] = [];
+      const value = -this.negamax(game, depth - 1, ply + 1, -beta, -alpha, childPv);
+      game.unmakeMove();
+
+      if (value > bestValue) {
+        bestValue = value;
+        pv.splice(0, pv.length, move, ...childPv);
+      }
+      alpha = Math.max(alpha, value);
+
+      if (alpha >= beta) {
+        this.recordCutoff(move, depth, ply);
+        break; // Alpha-beta pruning
+      }
+    }
+
+    // An interrupted search proves nothing
+    if (!this.timedOut) {
+      const bound: Bound = bestValue <= originalAlpha ? 'upper' : bestValue >= beta ? 'lower' : 'exact';
+      this.transpositionTable.store(key, { depth, score: this.scoreToTable(bestValue, ply), bound, bestMove: pv[0] ?? null });
+    }
+
+    return bestValue;
   }
 
-  private evaluatePosition(board: Board): number {
-    let score = 0;
+  // Keeps searching captures and promotions past the nominal depth, so a
+  // position is never scored in the middle of an exchange. The side to move
+  // may also "stand pat" on the static score instead of capturing. Out of
+  // check every evasion is searched, and on the first quiescence ply quiet
+  // checks are too, so short mating attacks aren't missed
+  private quiesce(game: ChessGame, ply: number, qPly: number, alpha: number, beta: number): number {
+    if (this.isOutOfTime()) {
+      return 0;
+    }
+    this.nodes++;
+
+    if (game.getGameOverReason() || game.getClaimableDraw()) {
+      return 0;
+    }
+
+    const inCheck = game.isKingInCheck();
+    const currentPlayer = game.getCurrentPlayer();
+    const legalMoves = game.getAllLegalMoves(currentPlayer);
 
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = board[row][col];
-        if (piece) {
-          const pieceValue = this.getPieceValue(piece, { row, col });
-          score += piece.color === 'black' ? pieceValue : -pieceValue;
-        }
+    if (legalMoves.length === 0) {
+      return inCheck ? -(MATE_SCORE - ply) : 0;
+    }
+
+    let bestValue = -Infinity;
+    if (!inCheck) {
+      bestValue = evaluate(game.getBoardView(), currentPlayer, this.weights) + this.getNoise(game, currentPlayer);
+      if (bestValue >= beta) {
+        return bestValue;
       }
+      alpha = Math.max(alpha, bestValue);
     }
 
+    const moves = this.orderMoves(
+      inCheck ? legalMoves : legalMoves.filter(move => this.isTactical(move) || (qPly === 0 && this.givesCheck(game, move))),
+      null,
+      -1
+    );
+
+    for (const move of moves) {
+      game.makeMoveUnchecked(move);
+      const value = -this.quiesce(game, ply + 1, qPly + 1, -beta, -alpha);
+      game.unmakeMove();
+
+      bestValue = Math.max(bestValue, value);
+      alpha = Math.max(alpha, value);
+      if (alpha >= beta) {
+        break;
+      }
+    }
+
+    return bestValue;
+  }
+
+  // A fixed pseudo-random error per position, so transpositions agree,
+  // that is negated for the other side like every other score
+  private getNoise(game: ChessGame, color: Color): number {
+    if (this.evalNoise === 0) {
+      return 0;
+    }
+    const { hi, lo } = game.getZobristKey();
+    const hash = (Math.imul(lo ^ this.noiseSeed, 0x9e3779b1) ^ hi) >>> 0;
+    const noise = Math.round((hash / 0x100000000 * 2 - 1) * this.evalNoise);
+    return color === 'white' ? noise : -noise;
+  }
+
+  // Full moves to mate, positive when the side to move mates, or null if
+  // the score isn't a forced mate
+  private getMateIn(score: number): number | null {
+    if (Math.abs(score) < MATE_THRESHOLD) {
+      return null;
+    }
+    const moves = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+    return score > 0 ? moves : -moves;
+  }
+
+  // The table is shared by every path to a position, so mate scores are
+  // stored as the distance from the position itself rather than the root
+  private scoreToTable(score: number, ply: number): number {
+    if (score >= MATE_THRESHOLD) return score + ply;
+    if (score <= -MATE_THRESHOLD) return score - ply;
     return score;
   }
 
-  private getPieceValue(piece: Piece, position: Position): number {
-    const baseValue = this.pieceValues[piece.type];
-    const positionValue = this.getPositionValue(piece, position);
-    return baseValue + positionValue;
-  }
-
-  private getPositionValue(piece: Piece, position: Position): number {
-    const { row, col } = position;
-    const adjustedRow = piece.color === 'white' ? 7 - row : row;
-
-    switch (piece.type) {
-      case 'pawn':
-        return this.pawnTable[adjustedRow][col];
-      case 'knight':
-        return this.knightTable[adjustedRow][col];
-      case 'bishop':
-        return this.bishopTable[adjustedRow][col];
-      case 'rook':
-        return this.rookTable[adjustedRow][col];
-      case 'queen':
-        return this.queenTable[adjustedRow][col];
-      case 'king':
-        return this.kingMiddleGameTable[adjustedRow][col];
-      default:
-        return 0;
-    }
-  }
-
-  private createGameCopy(game: ChessGame): ChessGame {
-    // Create a new game instance and copy the state
-    const newGame = new ChessGame();
-    const currentState = game.getGameState();
-    
-    // This is a simplified copy - in a production version,
-    // you'd want a proper deep clone method
-    (newGame as any).state = {
-      ...currentState,
-      board: copyBoard(currentState.board),
-      moveHistory: [...currentState.moveHistory]
-    };
-    
-    return newGame;
+  private scoreFromTable(score: number, ply: number): number {
+    if (score >= MATE_THRESHOLD) return score - ply;
+    if (score <= -MATE_THRESHOLD) return score + ply;
+    return score;
+  }
+
+  private isOutOfTime(): boolean {
+    if (!this.timedOut && (Date.now() >= this.deadline || this.isStopped?.())) {
+      this.timedOut = true;
+    }
+    return this.timedOut;
+  }
+
+  private isCapture(move: Move): boolean {
+    // En passant captures land on an empty square
+    return !!move.capturedPiece || (move.piece.type === 'pawn' && move.from.col !== move.to.col);
+  }
+
+  private isTactical(move: Move): boolean {
+    return this.isCapture(move) || !!move.promoteTo;
+  }
+
+  private givesCheck(game: ChessGame, move: Move): boolean {
+    game.makeMoveUnchecked(move);
+    const isCheck = game.isKingInCheck();
+    game.unmakeMove();
+    return isCheck;
+  }
+
+  // A quiet move that refutes a position is likely to refute its siblings
+  // too, so remember it for the other moves at this ply and for this color
+  private recordCutoff(move: Move, depth: number, ply: number): void {
+    if (this.isTactical(move)) {
+      return;
+    }
+
+    const killers = (this.killers[ply] ??= [null, null]);
+    if (!killers[0] || !movesEqual(killers[0], move)) {
+      killers[1] = killers[0];
+      killers[0] = move;
+    }
+    this.history[this.getHistoryIndex(move)] += depth * depth;
+  }
+
+  private getHistoryIndex(move: Move): number {
+    const { from, to, piece } = move;
+    return (piece.color === 'white' ? 0 : 4096) + (from.row * 8 + from.col) * 64 + to.row * 8 + to.col;
+  }
+
+  // Best moves first, for the most alpha-beta cutoffs: the move that was
+  // best in an earlier search of this position, then captures by most
+  // valuable victim and least valuable attacker (MVV-LVA) and promotions,
+  // then the killer moves for this ply and finally quiet moves by history
+  private orderMoves(moves: Move[], hashMove: Move | null, ply: number): Move[] {
+    const killers = this.killers[ply] ?? [];
+    const scores = new Map<Move, number>();
+
+    for (const move of moves) {
+      let score: number;
+      if (hashMove && movesEqual(move, hashMove)) {
+        score = 4_000_000;
+      } else if (this.isTactical(move)) {
+        const victim = move.capturedPiece?.type ?? (this.isCapture(move) ? 'pawn' : null);
+        const victimValue = victim ? PIECE_VALUES[victim] : 0;
+        const promotionValue = move.promoteTo ? PIECE_VALUES[move.promoteTo] : 0;
+        score = 3_000_000 + (victimValue + promotionValue) * 10 - ORDERING_RANKS[move.piece.type];
+      } else if (killers.some(killer => killer && movesEqual(killer, move))) {
+        score = killers[0] && movesEqual(killers[0], move) ? 2_000_001 : 2_000_000;
+      } else {
+        score = Math.min(this.history[this.getHistoryIndex(move)], 1_999_999);
+      }
+      scores.set(move, score);
+    }
+
+    return moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import React from 'react';
-import { Board, Position, Piece } from './types';
-import { getPieceSymbol } from './utils';
+import { Board, Position, Color, PieceType } from './types';
+import { getPieceSymbol, positionsEqual, PROMOTION_PIECES } from './utils';
 
 interface ChessBoardProps {
   board: Board;
@@ -8,22 +8,75 @@ interface ChessBoardProps {
   possibleMoves: Position[];
   onSquareClick: (position: Position) => void;
   isFlipped?: boolean;
+  promotion?: { square: Position; color: Color } | null;
+  onPromotionSelect?: (pieceType: PieceType) => void;
+  onPromotionCancel?: () => void;
+  // The suggested move, the player's pieces that could be lost and the
+  // opponent's best move if the player passed
+  hint?: { from: Position; to: Position } | null;
+  threatenedSquares?: Position[];
+  threatReply?: { from: Position; to: Position } | null;
 }
 
+const isMoveSquare = (move: { from: Position; to: Position } | null, square: Position) => {
+  return !!move && (positionsEqual(move.from, square) || positionsEqual(move.to, square));
+};
+
 export const ChessBoard: React.FC<ChessBoardProps> = ({
   board,
   selectedSquare,
   possibleMoves,
   onSquareClick,
-  isFlipped = false
+  isFlipped = false,
+  promotion = null,
+  onPromotionSelect,
+  onPromotionCancel,
+  hint = null,
+  threatenedSquares = [],
+  threatReply = null
 }) => {
-  const renderSquare = (row: number, col: number) => {
-    const displayRow = isFlipped ? 7 - row : row;
-    const displayCol = isFlipped ? 7 - col : col;
+  const renderPromotionPicker = () => {
+    if (!promotion) return null;
+
+    // The choices run from the promotion square towards the middle of the board
+    const { square, color } = promotion;
+    const displayRow = isFlipped ? 7 - square.row : square.row;
+    const displayCol = isFlipped ? 7 - square.col : square.col;
+    const opensDownward = displayRow < 4;
+    const top = opensDownward ? displayRow : displayRow - (PROMOTION_PIECES.length - 1);
+    const pieces = opensDownward ? PROMOTION_PIECES : [...PROMOTION_PIECES].reverse();
+
+    return (
+      <div className="absolute inset-0 z-10 bg-black/40" onClick={onPromotionCancel}>
+        <div
+          className="absolute flex flex-col bg-white shadow-2xl rounded-sm overflow-hidden"
+          style={{ left: `${displayCol * 4}rem`, top: `${top * 4}rem` }}
+          onClick={e => e.stopPropagation()}
+        >
+          {pieces.map(type => (
+            <button
+              key={type}
+              title={`Promote to ${type}`}
+              className="w-16 h-16 flex items-center justify-center text-4xl hover:bg-amber-200 transition-colors duration-150"
+              onClick={() => onPromotionSelect?.(type)}
+            >
+              <span className="select-none drop-shadow-sm">{getPieceSymbol({ type, color })}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Squares are laid out in display order; a flipped board shows black at the bottom
+  const renderSquare = (displayRow: number, displayCol: number) => {
+    const row = isFlipped ? 7 - displayRow : displayRow;
+    const col = isFlipped ? 7 - displayCol : displayCol;
     const piece = board[row][col];
     const isLight = (row + col) % 2 === 0;
     const isSelected = selectedSquare?.row === row && selectedSquare?.col === col;
     const isPossibleMove = possibleMoves.some(pos => pos.row === row && pos.col === col);
+    const isThreatened = threatenedSquares.some(pos => pos.row === row && pos.col === col);
 
     let squareClass = `w-16 h-16 flex items-center justify-center text-4xl cursor-pointer transition-all duration-200 relative ${
       isLight ? 'bg-amber-100' : 'bg-amber-800'
@@ -43,17 +96,20 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
         className={squareClass}
         onClick={() => onSquareClick({ row, col })}
       >
+        {isMoveSquare(threatReply, { row, col }) && <div className="absolute inset-0 bg-orange-500/40" />}
+        {isMoveSquare(hint, { row, col }) && <div className="absolute inset-0 bg-yellow-300/60" />}
+        {isThreatened && <div className="absolute inset-1 rounded-full border-4 border-red-500/80" />}
         {piece && (
-          <span className="select-none drop-shadow-sm">
+          <span className="relative select-none drop-shadow-sm">
             {getPieceSymbol(piece)}
           </span>
         )}
         {isPossibleMove && !piece && (
-          <div className="w-6 h-6 bg-green-400 rounded-full opacity-60" />
+          <div className="relative w-6 h-6 bg-green-400 rounded-full opacity-60" />
         )}
         {/* Square coordinates */}
         <div className="absolute bottom-0 right-0 text-xs font-mono opacity-30 pr-1">
-          {String.fromCharCode(97 + displayCol)}{8 - displayRow}
+          {String.fromCharCode(97 + col)}{8 - row}
         </div>
       </div>
     );
@@ -61,10 +117,11 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
 
   return (
     <div className="inline-block border-4 border-amber-900 shadow-2xl bg-amber-900">
-      <div className="grid grid-cols-8">
-        {Array.from({ length: 8 }, (_, row) =>
-          Array.from({ length: 8 }, (_, col) => renderSquare(row, col))
+      <div className="grid grid-cols-8 relative">
+        {Array.from({ length: 8 }, (_, displayRow) =>
+          Array.from({ length: 8 }, (_, displayCol) => renderSquare(displayRow, displayCol))
         )}
+        {renderPromotionPicker()}
       </div>
     </div>
   );
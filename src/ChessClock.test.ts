@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { ChessClock, TIME_CONTROLS } from './ChessClock';
+
+const SECOND = 1_000;
+const MINUTE = 60_000;
+
+// A clock for the named time control that runs on a hand-driven time source
+const makeClock = (id: string) => {
+  let time = 0;
+  const clock = new ChessClock(TIME_CONTROLS.find(control => control.id === id)!, () => time);
+  const wait = (ms: number) => {
+    time += ms;
+  };
+  // The side to move thinks for `ms`, then presses the clock
+  const move = (ms: number) => {
+    wait(ms);
+    clock.press();
+  };
+  return { clock, wait, move };
+};
+
+describe('ChessClock', () => {
+  it('adds a Fischer increment after every move', () => {
+    const { clock, wait, move } = makeClock('blitz-3-2');
+    clock.start('white');
+    move(10 * SECOND);
+    expect(clock.getRemaining('white')).toBe(3 * MINUTE - 8 * SECOND);
+    expect(clock.getActiveColor()).toBe('black');
+
+    wait(1 * SECOND);
+    expect(clock.getRemaining('black')).toBe(3 * MINUTE - 1 * SECOND);
+    move(0);
+    expect(clock.getRemaining('black')).toBe(3 * MINUTE + 1 * SECOND);
+  });
+
+  it('gives back at most the Bronstein increment', () => {
+    const { clock, move } = makeClock('blitz-5-b3');
+    clock.start('white');
+    move(2 * SECOND);
+    expect(clock.getRemaining('white')).toBe(5 * MINUTE);
+    move(10 * SECOND);
+    expect(clock.getRemaining('black')).toBe(5 * MINUTE - 7 * SECOND);
+  });
+
+  it('only starts counting down once a simple delay has passed', () => {
+    const { clock, wait, move } = makeClock('rapid-15-d5');
+    clock.start('white');
+    wait(4 * SECOND);
+    expect(clock.getRemaining('white')).toBe(15 * MINUTE);
+    move(0);
+    expect(clock.getRemaining('white')).toBe(15 * MINUTE);
+
+    wait(8 * SECOND);
+    expect(clock.getRemaining('black')).toBe(15 * MINUTE - 3 * SECOND);
+    move(0);
+    expect(clock.getRemaining('black')).toBe(15 * MINUTE - 3 * SECOND);
+  });
+
+  it('adds the next period once the move count is reached', () => {
+    const { clock, move } = makeClock('classical-40-90-30');
+    clock.start('white');
+    expect(clock.getMovesToGo('white')).toBe(40);
+
+    for (let moveNumber = 1; moveNumber < 40; moveNumber++) {
+      move(2 * MINUTE);
+      move(1 * MINUTE);
+    }
+    expect(clock.getMovesToGo('white')).toBe(1);
+    expect(clock.getRemaining('white')).toBe(90 * MINUTE - 39 * 90 * SECOND);
+
+    move(2 * MINUTE);
+    expect(clock.getMovesToGo('white')).toBeNull();
+    expect(clock.getMovesToGo('black')).toBe(1);
+    expect(clock.getRemaining('white')).toBe(90 * MINUTE - 40 * 90 * SECOND + 30 * MINUTE);
+  });
+
+  it('stops charging time while paused and flags the side that runs out', () => {
+    const { clock, wait } = makeClock('bullet-1');
+    clock.start('white');
+    wait(20 * SECOND);
+    clock.pause();
+    wait(5 * MINUTE);
+    expect(clock.getRemaining('white')).toBe(40 * SECOND);
+    expect(clock.getFlagged()).toBeNull();
+
+    clock.resume();
+    wait(40 * SECOND);
+    expect(clock.getRemaining('white')).toBe(0);
+    expect(clock.getFlagged()).toBe('white');
+  });
+});
@@ -0,0 +1,149 @@
+import { Color, TimeControl } from './types';
+
+const MINUTE = 60_000;
+const SECOND = 1_000;
+
+export const TIME_CONTROLS: TimeControl[] = [
+  { id: 'bullet-1', name: 'Bullet 1+0', periods: [{ moves: null, timeMs: MINUTE }], incrementMode: 'none', incrementMs: 0 },
+  { id: 'blitz-3-2', name: 'Blitz 3+2', periods: [{ moves: null, timeMs: 3 * MINUTE }], incrementMode: 'fischer', incrementMs: 2 * SECOND },
+  { id: 'blitz-5-b3', name: 'Blitz 5 Bronstein 3', periods: [{ moves: null, timeMs: 5 * MINUTE }], incrementMode: 'bronstein', incrementMs: 3 * SECOND },
+  { id: 'rapid-10', name: 'Rapid 10+0', periods: [{ moves: null, timeMs: 10 * MINUTE }], incrementMode: 'none', incrementMs: 0 },
+  { id: 'rapid-15-d5', name: 'Rapid 15 delay 5', periods: [{ moves: null, timeMs: 15 * MINUTE }], incrementMode: 'delay', incrementMs: 5 * SECOND },
+  { id: 'rapid-15-10', name: 'Rapid 15+10', periods: [{ moves: null, timeMs: 15 * MINUTE }], incrementMode: 'fischer', incrementMs: 10 * SECOND },
+  {
+    id: 'classical-40-90-30',
+    name: 'Classical 40/90+30',
+    periods: [{ moves: 40, timeMs: 90 * MINUTE }, { moves: null, timeMs: 30 * MINUTE }],
+    incrementMode: 'fischer',
+    incrementMs: 30 * SECOND
+  }
+];
+
+export class ChessClock {
+  private remaining: Record<Color, number>;
+  private movesMade: Record<Color, number> = { white: 0, black: 0 };
+  private activeColor: Color | null = null;
+  // Time spent on the current move, excluding any running stretch
+  private turnElapsed = 0;
+  private runningSince: number | null = null;
+
+  constructor(readonly timeControl: TimeControl, private readonly now: () => number = () => Date.now()) {
+    const initialTime = timeControl.periods[0].timeMs;
+    this.remaining = { white: initialTime, black: initialTime };
+  }
+
+  getActiveColor(): Color | null {
+    return this.activeColor;
+  }
+
+  isRunning(): boolean {
+    return this.runningSince !== null;
+  }
+
+  // Starts (or restarts) the clock of `color` for a fresh move
+  start(color: Color): void {
+    this.activeColor = color;
+    this.turnElapsed = 0;
+    this.runningSince = this.now();
+  }
+
+  pause(): void {
+    if (this.runningSince !== null) {
+      this.turnElapsed += this.now() - this.runningSince;
+      this.runningSince = null;
+    }
+  }
+
+  resume(): void {
+    if (this.activeColor && this.runningSince === null) {
+      this.runningSince = this.now();
+    }
+  }
+
+  // The active side completed a move: charge its time, apply the increment
+  // and any new period, then start the opponent's clock
+  press(): void {
+    const color = this.activeColor;
+    if (!color) return;
+
+    const spent = this.getTurnElapsed();
+    const { incrementMode, incrementMs } = this.timeControl;
+
+    this.remaining[color] -= this.getChargedTime(spent);
+    if (incrementMode === 'fischer') {
+      this.remaining[color] += incrementMs;
+    } else if (incrementMode === 'bronstein') {
+      this.remaining[color] += Math.min(spent, incrementMs);
+    }
+
+    this.movesMade[color]++;
+    const nextPeriod = this.getPeriodIndex(color);
+    if (nextPeriod !== this.getPeriodIndex(color, this.movesMade[color] - 1)) {
+      this.remaining[color] += this.timeControl.periods[nextPeriod].timeMs;
+    }
+
+    const wasRunning = this.isRunning();
+    this.start(color === 'white' ? 'black' : 'white');
+    if (!wasRunning) {
+      this.pause();
+    }
+  }
+
+  getRemaining(color: Color): number {
+    if (color !== this.activeColor) {
+      return this.remaining[color];
+    }
+    return Math.max(0, this.remaining[color] - this.getChargedTime(this.getTurnElapsed()));
+  }
+
+  // The side whose time has run out, if any
+  getFlagged(): Color | null {
+    if (this.activeColor && this.getRemaining(this.activeColor) <= 0) {
+      return this.activeColor;
+    }
+    return null;
+  }
+
+  // Moves still to play before the next time control, if the period has one
+  getMovesToGo(color: Color): number | null {
+    let movesUntilControl = 0;
+    for (const period of this.timeControl.periods) {
+      if (period.moves === null) return null;
+      movesUntilControl += period.moves;
+      if (this.movesMade[color] < movesUntilControl) {
+        return movesUntilControl - this.movesMade[color];
+      }
+    }
+    return null;
+  }
+
+  // How long `color` can afford to think about its next move
+  getMoveBudget(color: Color): number {
+    const remaining = this.getRemaining(color);
+    const movesToGo = this.getMovesToGo(color) ?? 30;
+    const { incrementMode, incrementMs } = this.timeControl;
+    const bonus = incrementMode === 'none' ? 0 : incrementMs * 0.8;
+    return Math.max(50, Math.min(remaining / 2, remaining / movesToGo + bonus));
+  }
+
+  private getTurnElapsed(): number {
+    return this.turnElapsed + (this.runningSince === null ? 0 : this.now() - this.runningSince);
+  }
+
+  // With a simple delay the first `incrementMs` of every move are free
+  private getChargedTime(spent: number): number {
+    const { incrementMode, incrementMs } = this.timeControl;
+    return incrementMode === 'delay' ? Math.max(0, spent - incrementMs) : spent;
+  }
+
+  private getPeriodIndex(color: Color, movesMade = this.movesMade[color]): number {
+    let movesUntilControl = 0;
+    for (let index = 0; index < this.timeControl.periods.length; index++) {
+      const { moves } = this.timeControl.periods[index];
+      if (moves === null) return index;
+      movesUntilControl += moves;
+      if (movesMade < movesUntilControl) return index;
+    }
+    return this.timeControl.periods.length - 1;
+  }
+}
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Color } from './types';
+
+interface ChessClockDisplayProps {
+  color: Color;
+  label: string;
+  remainingMs: number;
+  isActive: boolean;
+  isFlagged: boolean;
+}
+
+// Shows tenths of a second once a side is under ten seconds
+const formatClockTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+  }
+  if (totalSeconds < 10) {
+    return `${minutes}:${pad(seconds)}.${Math.floor((totalSeconds * 10) % 10)}`;
+  }
+  return `${minutes}:${pad(seconds)}`;
+};
+
+export const ChessClockDisplay: React.FC<ChessClockDisplayProps> = ({
+  color,
+  label,
+  remainingMs,
+  isActive,
+  isFlagged
+}) => {
+  let clockClass = 'w-full flex items-center justify-between px-4 py-2 rounded-lg border-2 transition-colors duration-200';
+
+  if (isFlagged) {
+    clockClass += ' bg-red-900 border-red-500 text-red-100';
+  } else if (isActive) {
+    clockClass += remainingMs < 10_000
+      ? ' bg-orange-600 border-orange-300 text-white'
+      : ' bg-emerald-700 border-emerald-400 text-white';
+  } else {
+    clockClass += ' bg-slate-800 border-slate-700 text-slate-400';
+  }
+
+  return (
+    <div className={clockClass}>
+      <div className="flex items-center gap-2">
+        <div className={`w-3 h-3 rounded-full border border-slate-500 ${color === 'white' ? 'bg-white' : 'bg-slate-900'}`} />
+        <span className="font-semibold">{label}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        {isActive && !isFlagged && <Clock size={16} className="animate-pulse" />}
+        <span className="font-mono text-2xl tabular-nums">{formatClockTime(remainingMs)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+
+const playSan = (game: ChessGame, moves: string[]) => {
+  for (const san of moves) {
+    game.applyMove(game.moveFromSan(san)!);
+  }
+};
+
+describe('ChessGame.getPositionAt', () => {
+  it('reconstructs every earlier position without changing the game', () => {
+    const game = new ChessGame();
+    const fens = [game.toFen()];
+    for (const san of ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'O-O']) {
+      playSan(game, [san]);
+      fens.push(game.toFen());
+    }
+    const live = game.getGameState();
+
+    fens.forEach((fen, ply) => {
+      const position = game.getPositionAt(ply);
+      expect(position.moveHistory).toHaveLength(ply);
+      expect(new ChessGame(fen).getGameState().board).toEqual(position.board);
+      expect(position.currentPlayer).toBe(ply % 2 === 0 ? 'white' : 'black');
+    });
+    expect(game.getGameState()).toEqual(live);
+  });
+
+  it('replays from a FEN starting position', () => {
+    const game = new ChessGame('6k1/5ppp/8/8/8/8/8/R5K1 b - - 0 1');
+    playSan(game, ['h6', 'Ra8+', 'Kh7']);
+    expect(game.getPositionAt(0).fullmoveNumber).toBe(1);
+    expect(game.getPositionAt(2).isCheck).toBe(true);
+    expect(game.getPositionAt(3).board).toEqual(game.getGameState().board);
+  });
+
+  it('follows the game after moves are taken back and replaced', () => {
+    const game = new ChessGame();
+    playSan(game, ['e4', 'e5', 'Nf3']);
+    expect(game.getPositionAt(3).board).toEqual(game.getGameState().board);
+
+    game.undoMove();
+    game.undoMove();
+    playSan(game, ['c5', 'Nc3', 'Nc6']);
+    const sicilian = new ChessGame();
+    playSan(sicilian, ['e4', 'c5', 'Nc3']);
+    expect(game.getPositionAt(3).board).toEqual(sicilian.getGameState().board);
+    expect(game.getPositionAt(4)).toEqual(game.getGameState());
+    expect(game.getPositionAt(99)).toEqual(game.getGameState());
+    // A position handed out can be changed without affecting later calls
+    game.getPositionAt(1).board[4][4] = null;
+    expect(game.getPositionAt(1).board[4][4]?.type).toBe('pawn');
+  });
+});
+
+describe('undo and redo', () => {
+  // Plays `moves` after `setup`, then takes them back one at a time,
+  // checking each position against the FEN it had before the move
+  const expectUndoRestores = (setup: string[], moves: string[], fen?: string) => {
+    const game = new ChessGame(fen);
+    playSan(game, setup);
+    const fens = [game.toFen()];
+    for (const san of moves) {
+      playSan(game, [san]);
+      fens.push(game.toFen());
+    }
+    for (let ply = moves.length - 1; ply >= 0; ply--) {
+      expect(game.undoMove()?.san).toBe(moves[ply]);
+      expect(game.toFen()).toBe(fens[ply]);
+    }
+    return game;
+  };
+
+  it('puts a captured piece back', () => {
+    const game = expectUndoRestores(['e4', 'd5'], ['exd5']);
+    expect(game.getGameState().board[3][3]).toEqual({ type: 'pawn', color: 'black' });
+    expect(game.getGameState().board[4][4]).toEqual({ type: 'pawn', color: 'white' });
+  });
+
+  it('puts an en passant capture back and restores the target square', () => {
+    const game = expectUndoRestores(['e4', 'a6', 'e5', 'd5'], ['exd6']);
+    const { board, enPassantTarget } = game.getGameState();
+    expect(board[3][3]).toEqual({ type: 'pawn', color: 'black' });
+    expect(board[2][3]).toBeNull();
+    expect(enPassantTarget).toEqual({ row: 2, col: 3 });
+  });
+
+  it('turns a promoted piece back into a pawn', () => {
+    const game = expectUndoRestores([], ['bxa8=Q+'], 'r3k3/1P6/8/8/8/8/8/4K3 w - - 0 1');
+    expect(game.getGameState().board[1][1]).toEqual({ type: 'pawn', color: 'white' });
+    expect(game.getGameState().board[0][0]).toEqual({ type: 'rook', color: 'black' });
+  });
+
+  it('restores castling rights and the move counters', () => {
+    const game = expectUndoRestores([], ['Rb1', 'Kd8', 'O-O'], 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 7 30');
+    const { canCastleKingSide, canCastleQueenSide, halfmoveClock, fullmoveNumber } = game.getGameState();
+    expect(canCastleKingSide).toEqual({ white: true, black: true });
+    expect(canCastleQueenSide).toEqual({ white: true, black: true });
+    expect(halfmoveClock).toBe(7);
+    expect(fullmoveNumber).toBe(30);
+  });
+
+  it('redoes undone moves in order', () => {
+    const game = new ChessGame();
+    playSan(game, ['e4', 'e5', 'Nf3']);
+    const fen = game.toFen();
+    game.undoMove();
+    game.undoMove();
+    expect(game.canRedo()).toBe(true);
+    expect(game.redoMove()?.san).toBe('e5');
+    expect(game.redoMove()?.san).toBe('Nf3');
+    expect(game.toFen()).toBe(fen);
+    expect(game.canRedo()).toBe(false);
+    expect(game.redoMove()).toBeNull();
+  });
+
+  it('forgets undone moves once a different move is played', () => {
+    const game = new ChessGame();
+    playSan(game, ['e4', 'e5']);
+    game.undoMove();
+    playSan(game, ['c5']);
+    expect(game.canRedo()).toBe(false);
+    expect(game.redoMove()).toBeNull();
+    expect(game.getGameState().moveHistory.map(move => move.san)).toEqual(['e4', 'c5']);
+  });
+});
+
+describe('promotion', () => {
+  const FEN = '8/4P3/8/8/8/8/3p4/k6K w - - 0 1';
+  const e7 = { row: 1, col: 4 };
+  const e8 = { row: 0, col: 4 };
+
+  it('promotes to the chosen piece and can be undone', () => {
+    for (const [type, san] of [['knight', 'e8=N'], ['bishop', 'e8=B'], ['rook', 'e8=R']] as const) {
+      const game = new ChessGame(FEN);
+      expect(game.makeMove(e7, e8, type)).toBe(true);
+      expect(game.getGameState().board[0][4]).toEqual({ type, color: 'white' });
+      expect(game.getGameState().moveHistory[0].san).toBe(san);
+
+      game.undoMove();
+      expect(game.getGameState().board[1][4]).toEqual({ type: 'pawn', color: 'white' });
+      expect(game.getGameState().board[0][4]).toBeNull();
+    }
+  });
+
+  it('promotes to a queen when no piece is given', () => {
+    const game = new ChessGame(FEN);
+    expect(game.makeMove(e7, e8)).toBe(true);
+    expect(game.getGameState().board[0][4]).toEqual({ type: 'queen', color: 'white' });
+  });
+
+  it('rejects a promotion piece on other moves and a king as the piece', () => {
+    const game = new ChessGame(FEN);
+    expect(game.makeMove({ row: 7, col: 7 }, { row: 6, col: 7 }, 'queen')).toBe(false);
+    expect(game.makeMove(e7, e8, 'king')).toBe(false);
+    expect(game.makeMove(e7, e8, 'pawn')).toBe(false);
+    expect(game.toFen()).toBe(FEN);
+  });
+});
+
+describe('ChessGame.declareTimeout', () => {
+  // The side to move runs out of time
+  const flagFall = (fen: string) => {
+    const game = new ChessGame(fen);
+    game.declareTimeout();
+    return game.getGameOverReason();
+  };
+
+  it('loses on time when the opponent has a pawn, rook or queen', () => {
+    expect(flagFall('4k3/p7/8/8/8/8/8/4K3 w - - 0 1')).toBe('timeout');
+    expect(flagFall('4k2r/8/8/8/8/8/8/4K3 w - - 0 1')).toBe('timeout');
+    expect(flagFall('3qk3/8/8/8/8/8/8/3QK3 w - - 0 1')).toBe('timeout');
+  });
+
+  it('draws when the opponent has only a king', () => {
+    expect(flagFall('4k3/8/8/8/8/8/8/3QK3 w - - 0 1')).toBe('timeout-vs-insufficient-material');
+  });
+
+  it('loses to a lone knight only if there is a piece besides a queen to block with', () => {
+    expect(flagFall('4k1n1/8/8/8/8/8/P7/4K3 w - - 0 1')).toBe('timeout');
+    expect(flagFall('4k1n1/8/8/8/8/8/8/3QK3 w - - 0 1')).toBe('timeout-vs-insufficient-material');
+    expect(flagFall('4kbn1/8/8/8/8/8/8/3QK3 w - - 0 1')).toBe('timeout');
+    expect(flagFall('4k1nn/8/8/8/8/8/8/3QK3 w - - 0 1')).toBe('timeout');
+  });
+
+  it('loses to a lone bishop only if a pawn, knight or other-colored bishop can block', () => {
+    expect(flagFall('4kb2/8/8/8/8/8/8/4KB2 w - - 0 1')).toBe('timeout');
+    expect(flagFall('4kb2/8/8/8/8/8/8/1N2K3 w - - 0 1')).toBe('timeout');
+    expect(flagFall('4kb2/8/8/8/8/8/8/R1B1K3 w - - 0 1')).toBe('timeout-vs-insufficient-material');
+  });
+
+  it('changes nothing once the game is over', () => {
+    expect(flagFall('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe('insufficient-material');
+    expect(flagFall('R5k1/5ppp/8/8/8/8/8/6K1 b - - 0 1')).toBe('checkmate');
+  });
+});
+
+describe('draw rules', () => {
+  it('ends the game when neither side can mate', () => {
+    const reason = (fen: string) => new ChessGame(fen).getGameOverReason();
+    expect(reason('4k3/8/8/8/8/8/8/4K3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('4k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1')).toBe('insufficient-material');
+    // Bishops on squares of the same color, then of both colors
+    expect(reason('4kb2/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBe('insufficient-material');
+    expect(reason('2b1k3/8/8/8/8/8/8/2B1K3 w - - 0 1')).toBeNull();
+    expect(reason('4k3/8/8/8/8/8/8/1NN1K3 w - - 0 1')).toBeNull();
+    expect(reason('4k3/8/8/8/8/8/P7/4K3 w - - 0 1')).toBeNull();
+  });
+
+  it('lets the fifty-move rule be claimed and ends the game at seventy-five moves', () => {
+    const game = new ChessGame('4k3/8/8/8/8/8/8/R3K3 w - - 99 80');
+    playSan(game, ['Ra2']);
+    expect(game.getGameOverReason()).toBeNull();
+    expect(game.getClaimableDraw()).toBe('fifty-move-rule');
+    expect(game.claimDraw()).toBe(true);
+    expect(game.getGameOverReason()).toBe('fifty-move-rule');
+
+    const longer = new ChessGame('4k3/8/8/8/8/8/8/R3K3 w - - 149 105');
+    playSan(longer, ['Ra2']);
+    expect(longer.getGameOverReason()).toBe('seventy-five-move-rule');
+    expect(longer.getClaimableDraw()).toBeNull();
+  });
+
+  it('lets threefold repetition be claimed and ends the game at fivefold', () => {
+    const game = new ChessGame();
+    const shuffle = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+    playSan(game, shuffle);
+    expect(game.getClaimableDraw()).toBeNull();
+    expect(game.claimDraw()).toBe(false);
+    playSan(game, shuffle);
+    expect(game.getClaimableDraw()).toBe('threefold-repetition');
+    expect(game.getGameOverReason()).toBeNull();
+
+    playSan(game, [...shuffle, ...shuffle]);
+    expect(game.getGameOverReason()).toBe('fivefold-repetition');
+  });
+
+  it('accepts no moves after a claimed draw or a timeout', () => {
+    const game = new ChessGame('4k3/8/8/8/8/8/8/R3K3 w - - 99 80');
+    playSan(game, ['Ra2']);
+    game.claimDraw();
+    expect(game.makeMove({ row: 0, col: 4 }, { row: 0, col: 3 })).toBe(false);
+    expect(game.getGameState().moveHistory).toHaveLength(1);
+
+    const flagged = new ChessGame();
+    flagged.declareTimeout();
+    expect(flagged.makeMove({ row: 6, col: 4 }, { row: 4, col: 4 })).toBe(false);
+  });
+
+  it('takes back a claimed draw along with the move', () => {
+    const game = new ChessGame('4k3/8/8/8/8/8/8/R3K3 w - - 99 80');
+    playSan(game, ['Ra2']);
+    game.claimDraw();
+    game.undoMove();
+    expect(game.getGameOverReason()).toBeNull();
+    expect(game.getClaimableDraw()).toBeNull();
+  });
+});
@@ -1,11 +1,67 @@
-import { Board, Piece, Position, Move, Color, GameState } from './types';
-import { createInitialBoard, isValidPosition, positionsEqual, copyBoard } from './utils';
+import { Board, Piece, PieceType, Position, Move, Color, GameState, GameOverReason, ClaimableDraw, ReadonlyBoard } from './types';
+import { createInitialBoard, isValidPosition, positionsEqual, movesEqual, copyBoard, moveToUci, PROMOTION_PIECES } from './utils';
+import { INITIAL_FEN, parseFen, toFen } from './fen';
+import { moveToSan, sanToMove } from './san';
+import { ZobristKey, hashBoard, hashPosition, keysEqual, togglePiece } from './zobrist';
+
+// Everything a move overwrites that cannot be recomputed from the move itself
+interface UndoInfo {
+  canCastleKingSide: { white: boolean; black: boolean };
+  canCastleQueenSide: { white: boolean; black: boolean };
+  enPassantTarget: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+  isCheck: boolean;
+  isCheckmate: boolean;
+  isStalemate: boolean;
+  gameOverReason: GameOverReason | null;
+  boardKey: ZobristKey;
+}
+
+const KNIGHT_OFFSETS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_OFFSETS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const SLIDER_RAYS: [number, number, PieceType][] = [
+  [-1, 0, 'rook'], [1, 0, 'rook'], [0, -1, 'rook'], [0, 1, 'rook'],
+  [-1, -1, 'bishop'], [-1, 1, 'bishop'], [1, -1, 'bishop'], [1, 1, 'bishop']
+];
+
+const copyGameState = (state: GameState): GameState => ({
+  ...state,
+  board: copyBoard(state.board),
+  moveHistory: [...state.moveHistory],
+  canCastleKingSide: { ...state.canCastleKingSide },
+  canCastleQueenSide: { ...state.canCastleQueenSide },
+});
 
 export class ChessGame {
   private state: GameState;
+  private readonly startingFen: string;
+  private undoStack: UndoInfo[] = [];
+  private redoStack: Move[] = [];
+  // Zobrist key of the pieces alone, updated as they move
+  private boardKey: ZobristKey;
+  // Zobrist keys of every position reached so far, one per ply
+  private positionKeys: ZobristKey[] = [];
+  // What getPositionAt has replayed: the game it replays in, and the
+  // position after each of that game's moves. Kept while this game's moves
+  // begin with the replayed ones, so stepping through the game replays
+  // each move once
+  private replay: ChessGame | null = null;
+  private replayedPositions: GameState[] = [];
+
+  constructor(fen?: string) {
+    this.startingFen = fen ?? INITIAL_FEN;
+    this.state = fen ? this.createGameStateFromFen(fen) : this.createInitialGameState();
+    this.boardKey = hashBoard(this.state.board);
+    this.positionKeys.push(this.getPositionKey());
+    if (fen) {
+      // Positions loaded from FEN may already be check, checkmate or a draw
+      this.updateGameStatus();
+    }
+  }
 
-  constructor() {
-    this.state = this.createInitialGameState();
+  static fromFen(fen: string): ChessGame {
+    return new ChessGame(fen);
   }
 
   private createInitialGameState(): GameState {
@@ -16,14 +72,96 @@ export class ChessGame {
       isCheck: false,
       isCheckmate: false,
       isStalemate: false,
+      gameOverReason: null,
       canCastleKingSide: { white: true, black: true },
       canCastleQueenSide: { white: true, black: true },
       enPassantTarget: null,
+      halfmoveClock: 0,
+      fullmoveNumber: 1,
     };
   }
 
+  // Throws a FenError naming every malformed field
+  private createGameStateFromFen(fen: string): GameState {
+    return {
+      ...parseFen(fen),
+      moveHistory: [],
+      isCheck: false,
+      isCheckmate: false,
+      isStalemate: false,
+      gameOverReason: null,
+    };
+  }
+
+  // An independent copy that shares no mutable state with this game
+  clone(): ChessGame {
+    const copy = Object.create(ChessGame.prototype) as ChessGame;
+    Object.assign(copy, this, {
+      state: this.getGameState(),
+      undoStack: this.undoStack.map(info => ({
+        ...info,
+        canCastleKingSide: { ...info.canCastleKingSide },
+        canCastleQueenSide: { ...info.canCastleQueenSide },
+      })),
+      redoStack: [...this.redoStack],
+      positionKeys: [...this.positionKeys],
+      replay: null,
+      replayedPositions: [],
+    });
+    return copy;
+  }
+
+  toFen(): string {
+    return toFen(this.state);
+  }
+
+  getStartingFen(): string {
+    return this.startingFen;
+  }
+
+  // Identifies the current position for repetition detection and the AI's
+  // transposition table
+  getZobristKey(): ZobristKey {
+    return this.positionKeys[this.positionKeys.length - 1];
+  }
+
   getGameState(): GameState {
-    return { ...this.state, board: copyBoard(this.state.board) };
+    return copyGameState(this.state);
+  }
+
+  // Copy-free views of the live position for the AI's search, which reads
+  // them at every node
+  getBoardView(): ReadonlyBoard {
+    return this.state.board;
+  }
+
+  getCurrentPlayer(): Color {
+    return this.state.currentPlayer;
+  }
+
+  isKingInCheck(): boolean {
+    return this.state.isCheck;
+  }
+
+  getGameOverReason(): GameOverReason | null {
+    return this.state.gameOverReason;
+  }
+
+  // The draw the side to move could claim now, if any
+  getClaimableDraw(): ClaimableDraw | null {
+    if (this.state.gameOverReason) return null;
+    if (this.state.halfmoveClock >= 100) return 'fifty-move-rule';
+    if (this.countRepetitions() >= 3) return 'threefold-repetition';
+    return null;
+  }
+
+  // Ends the game in a draw if one can be claimed
+  claimDraw(): boolean {
+    const reason = this.getClaimableDraw();
+    if (reason) {
+      this.state.gameOverReason = reason;
+    }
+    return reason !== null;
   }
 
   getPossibleMoves(from: Position): Position[] {
@@ -85,9 +223,8 @@ export class ChessGame {
         const target = this.state.board[pos.row][pos.col];
         if (target && target.color !== color) {
           moves.push(pos);
-        }
-        // En passant
-        if (this.state.enPassantTarget && positionsEqual(pos, this.state.enPassantTarget)) {
+        } else if (!target && this.state.enPassantTarget && positionsEqual(pos, this.state.enPassantTarget)) {
+          // En passant
           moves.push(pos);
         }
       }
@@ -186,45 +323,180 @@ export class ChessGame {
       }
     }
 
-    // Castling
+    // Castling: the king may not be in check, pass through or land on an
+    // attacked square, and the rook must still stand on its home square
     const color = this.state.board[from.row][from.col]!.color;
-    if (color === 'white' && from.row === 7 && from.col === 4) {
-      if (this.state.canCastleKingSide.white && !this.state.board[7][5] && !this.state.board[7][6]) {
-        moves.push({ row: 7, col: 6 });
+    const homeRow = color === 'white' ? 7 : 0;
+    const opponent = color === 'white' ? 'black' : 'white';
+    if (from.row === homeRow && from.col === 4 && !this.isSquareAttacked(this.state.board, from, opponent)) {
+      if (this.state.canCastleKingSide[color] && this.canCastleWith(color, 7, [5, 6], [5, 6])) {
+        moves.push({ row: homeRow, col: 6 });
       }
-      if (this.state.canCastleQueenSide.white && !this.state.board[7][3] && !this.state.board[7][2] && !this.state.board[7][1]) {
-        moves.push({ row: 7, col: 2 });
-      }
-    } else if (color === 'black' && from.row === 0 && from.col === 4) {
-      if (this.state.canCastleKingSide.black && !this.state.board[0][5] && !this.state.board[0][6]) {
-        moves.push({ row: 0, col: 6 });
-      }
-      if (this.state.canCastleQueenSide.black && !this.state.board[0][3] && !this.state.board[0][2] && !this.state.board[0][1]) {
-        moves.push({ row: 0, col: 2 });
+      if (this.state.canCastleQueenSide[color] && this.canCastleWith(color, 0, [1, 2, 3], [2, 3])) {
+        moves.push({ row: homeRow, col: 2 });
       }
     }
 
     return moves;
   }
 
+  private canCastleWith(color: Color, rookCol: number, emptyCols: number[], kingPathCols: number[]): boolean {
+    const board = this.state.board;
+    const row = color === 'white' ? 7 : 0;
+    const opponent = color === 'white' ? 'black' : 'white';
+    const rook = board[row][rookCol];
+
+    return (
+      rook?.type === 'rook' &&
+      rook.color === color &&
+      emptyCols.every(col => !board[row][col]) &&
+      kingPathCols.every(col => !this.isSquareAttacked(board, { row, col }, opponent))
+    );
+  }
+
+  // Tries the move on the live board and puts everything back, which is
+  // much cheaper than checking a copy
   private isLegalMove(move: Move): boolean {
-    const tempState = this.simulateMove(move);
-    return !this.isInCheck(tempState.board, this.state.currentPlayer);
+    const board = this.state.board;
+    const { from, to, piece } = move;
+    const target = board[to.row][to.col];
+
+    // An en passant capture also empties the captured pawn's square, which
+    // can uncover an attack along the rank
+    const { enPassantTarget } = this.state;
+    const isEnPassant = piece.type === 'pawn' && !!enPassantTarget && positionsEqual(to, enPassantTarget);
+    const enPassantPawn = isEnPassant ? board[from.row][to.col] : null;
+
+    board[to.row][to.col] = piece;
+    board[from.row][from.col] = null;
+    if (isEnPassant) {
+      board[from.row][to.col] = null;
+    }
+
+    const isLegal = !this.isInCheck(board, piece.color);
+
+    board[from.row][from.col] = piece;
+    board[to.row][to.col] = target;
+    if (isEnPassant) {
+      board[from.row][to.col] = enPassantPawn;
+    }
+    return isLegal;
   }
 
-  private simulateMove(move: Move): { board: Board } {
-    const newBoard = copyBoard(this.state.board);
-    newBoard[move.to.row][move.to.col] = move.piece;
-    newBoard[move.from.row][move.from.col] = null;
-    return { board: newBoard };
+  // Pawns reaching the last rank promote to `promoteTo`, or a queen if omitted
+  makeMove(from: Position, to: Position, promoteTo?: PieceType): boolean {
+    if (!this.playMove(from, to, promoteTo)) {
+      return false;
+    }
+
+    // A new move abandons the line that could have been redone
+    this.redoStack = [];
+    return true;
   }
 
-  makeMove(from: Position, to: Position): boolean {
+  // The game as it stood after the first `ply` moves, replayed from the
+  // starting position; this game is left as it is
+  getPositionAt(ply: number): GameState {
+    const moves = this.state.moveHistory;
+    const target = Math.min(Math.max(0, ply), moves.length);
+    if (!this.replay) {
+      this.replay = new ChessGame(this.startingFen);
+      this.replayedPositions = [this.replay.getGameState()];
+    }
+
+    // Take back the replayed moves this game has since undone or replaced
+    const replay = this.replay;
+    const replayed = replay.state.moveHistory;
+    let common = 0;
+    while (common < replayed.length && common < moves.length && movesEqual(replayed[common], moves[common])) {
+      common++;
+    }
+    while (replay.state.moveHistory.length > common) {
+      replay.unmakeMove();
+    }
+    this.replayedPositions.length = common + 1;
+
+    for (let i = common; i < target; i++) {
+      const { from, to, promoteTo } = moves[i];
+      replay.makeMove(from, to, promoteTo);
+      this.replayedPositions.push(replay.getGameState());
+    }
+    return copyGameState(this.replayedPositions[target]);
+  }
+
+  canUndo(): boolean {
+    return this.state.moveHistory.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undoMove(): Move | null {
+    const move = this.unmakeMove();
+    if (move) {
+      this.redoStack.push(move);
+    }
+    return move;
+  }
+
+  // Takes back the last move without touching the redo stack; the
+  // counterpart of makeMoveUnchecked
+  unmakeMove(): Move | null {
+    const move = this.state.moveHistory.pop();
+    const undoInfo = this.undoStack.pop();
+    if (!move || !undoInfo) {
+      return null;
+    }
+    this.positionKeys.pop();
+
+    const { from, to, piece, capturedPiece } = move;
+    const board = this.state.board;
+
+    board[from.row][from.col] = piece;
+    if (move.isEnPassant) {
+      board[to.row][to.col] = null;
+      board[from.row][to.col] = capturedPiece ?? null;
+    } else {
+      board[to.row][to.col] = capturedPiece ?? null;
+    }
+
+    if (move.isCastling) {
+      const isKingSide = to.col > from.col;
+      board[from.row][isKingSide ? 7 : 0] = board[from.row][isKingSide ? 5 : 3];
+      board[from.row][isKingSide ? 5 : 3] = null;
+    }
+
+    const { boardKey, ...stateInfo } = undoInfo;
+    this.boardKey = boardKey;
+    Object.assign(this.state, stateInfo, { currentPlayer: piece.color });
+    return move;
+  }
+
+  redoMove(): Move | null {
+    const move = this.redoStack.pop();
+    if (!move || !this.playMove(move.from, move.to, move.promoteTo)) {
+      return null;
+    }
+    return this.state.moveHistory[this.state.moveHistory.length - 1];
+  }
+
+  private playMove(from: Position, to: Position, promoteTo?: PieceType): boolean {
+    // Nothing can be played once the game is over, however it ended
+    if (this.state.gameOverReason) {
+      return false;
+    }
+
     const piece = this.state.board[from.row][from.col];
     if (!piece || piece.color !== this.state.currentPlayer) {
       return false;
     }
 
+    const isPromotion = this.isPromotion(from, to);
+    if (promoteTo && (!isPromotion || !PROMOTION_PIECES.includes(promoteTo))) {
+      return false;
+    }
+
     const possibleMoves = this.getPossibleMoves(from);
     const isValidMove = possibleMoves.some(pos => positionsEqual(pos, to));
     if (!isValidMove) {
@@ -232,13 +504,61 @@ export class ChessGame {
     }
 
     const capturedPiece = this.state.board[to.row][to.col];
-    const move: Move = { from, to, piece, capturedPiece: capturedPiece || undefined };
+    const move: Move = {
+      from,
+      to,
+      piece,
+      capturedPiece: capturedPiece || undefined,
+      promoteTo: isPromotion ? promoteTo ?? 'queen' : undefined
+    };
+    const sanRivals = this.getSanRivals(move);
+
+    this.executeMove(move);
+    this.updateGameStatus();
+
+    move.san = moveToSan(move, sanRivals, this.state);
+
+    return true;
+  }
+
+  // Plays a move taken from getAllLegalMoves without checking it again or
+  // writing its SAN, for search and perft. Check, the move rules,
+  // repetition and dead positions are still detected, but checkmate and
+  // stalemate are not: the caller sees them when it finds no legal moves
+  makeMoveUnchecked(move: Move): void {
+    const { from, to, piece } = move;
+    const capturedPiece = this.state.board[to.row][to.col];
+    const promoteTo = this.isPromotion(from, to) ? move.promoteTo ?? 'queen' : undefined;
+    this.executeMove({ from, to, piece, capturedPiece: capturedPiece || undefined, promoteTo });
+
+    this.state.isCheck = this.isInCheck(this.state.board, this.state.currentPlayer);
+    this.state.isCheckmate = false;
+    this.state.isStalemate = false;
+    this.state.gameOverReason = this.detectGameOverReason();
+  }
+
+  private executeMove(move: Move): void {
+    const { from, to, piece } = move;
+
+    this.undoStack.push({
+      canCastleKingSide: { ...this.state.canCastleKingSide },
+      canCastleQueenSide: { ...this.state.canCastleQueenSide },
+      enPassantTarget: this.state.enPassantTarget,
+      halfmoveClock: this.state.halfmoveClock,
+      fullmoveNumber: this.state.fullmoveNumber,
+      isCheck: this.state.isCheck,
+      isCheckmate: this.state.isCheckmate,
+      isStalemate: this.state.isStalemate,
+      gameOverReason: this.state.gameOverReason,
+      boardKey: this.boardKey,
+    });
 
     // Handle special moves
     this.handleSpecialMoves(move);
+    this.updateBoardKey(move);
 
     // Make the move
-    this.state.board[to.row][to.col] = piece;
+    this.state.board[to.row][to.col] = move.promoteTo ? { type: move.promoteTo, color: piece.color } : piece;
     this.state.board[from.row][from.col] = null;
     this.state.moveHistory.push(move);
 
@@ -248,13 +568,61 @@ export class ChessGame {
     // Update en passant target
     this.updateEnPassantTarget(move);
 
+    // Update move counters
+    this.state.halfmoveClock = piece.type === 'pawn' || move.capturedPiece ? 0 : this.state.halfmoveClock + 1;
+    if (this.state.currentPlayer === 'black') {
+      this.state.fullmoveNumber++;
+    }
+
     // Switch players
     this.state.currentPlayer = this.state.currentPlayer === 'white' ? 'black' : 'white';
+    this.positionKeys.push(this.getPositionKey());
+  }
 
-    // Update game status
-    this.updateGameStatus();
+  // Other pieces of the same type that could also reach the move's target square
+  private getSanRivals(move: Move): Position[] {
+    const { from, to, piece } = move;
+    const rivals: Position[] = [];
+    if (piece.type === 'pawn' || piece.type === 'king') {
+      return rivals;
+    }
 
-    return true;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const other = this.state.board[row][col];
+        if (!other || other.type !== piece.type || other.color !== piece.color || (row === from.row && col === from.col)) {
+          continue;
+        }
+        if (this.getPossibleMoves({ row, col }).some(pos => positionsEqual(pos, to))) {
+          rivals.push({ row, col });
+        }
+      }
+    }
+
+    return rivals;
+  }
+
+  // SAN for a line of moves played from the current position, such as a
+  // principal variation. Stops at the first move that is not legal
+  getSanLine(moves: Move[]): string[] {
+    const copy = this.clone();
+    const line: string[] = [];
+    for (const move of moves) {
+      if (!copy.makeMove(move.from, move.to, move.promoteTo)) break;
+      line.push(copy.state.moveHistory[copy.state.moveHistory.length - 1].san!);
+    }
+    return line;
+  }
+
+  // Resolves a SAN token like "Nbd7" or "exd8=Q+" against the side to move
+  moveFromSan(san: string): Move | null {
+    return sanToMove(san, this.getAllLegalMoves(this.state.currentPlayer));
+  }
+
+  // Resolves a long algebraic move like "e2e4" or "e7e8q" against the side
+  // to move
+  moveFromUci(uci: string): Move | null {
+    return this.getAllLegalMoves(this.state.currentPlayer).find(move => moveToUci(move) === uci) ?? null;
   }
 
   private handleSpecialMoves(move: Move): void {
@@ -276,15 +644,34 @@ export class ChessGame {
     // En passant
     if (piece.type === 'pawn' && this.state.enPassantTarget && positionsEqual(to, this.state.enPassantTarget)) {
       const capturedPawnRow = piece.color === 'white' ? to.row + 1 : to.row - 1;
+      move.capturedPiece = this.state.board[capturedPawnRow][to.col] || undefined;
       this.state.board[capturedPawnRow][to.col] = null;
       move.isEnPassant = true;
     }
+  }
+
+  private updateBoardKey(move: Move): void {
+    const { from, to, piece, capturedPiece, promoteTo } = move;
+    let key = togglePiece(this.boardKey, piece, from);
+
+    if (capturedPiece) {
+      key = togglePiece(key, capturedPiece, move.isEnPassant ? { row: from.row, col: to.col } : to);
+    }
+    key = togglePiece(key, promoteTo ? { type: promoteTo, color: piece.color } : piece, to);
 
-    // Pawn promotion
-    if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
-      move.promoteTo = 'queen';
-      piece.type = 'queen';
+    if (move.isCastling) {
+      const isKingSide = to.col > from.col;
+      const rook: Piece = { type: 'rook', color: piece.color };
+      key = togglePiece(key, rook, { row: from.row, col: isKingSide ? 7 : 0 });
+      key = togglePiece(key, rook, { row: from.row, col: isKingSide ? 5 : 3 });
     }
+
+    this.boardKey = key;
+  }
+
+  isPromotion(from: Position, to: Position): boolean {
+    const piece = this.state.board[from.row][from.col];
+    return piece?.type === 'pawn' && (to.row === 0 || to.row === 7);
   }
 
   private updateCastlingRights(move: Move): void {
@@ -301,16 +688,21 @@ export class ChessGame {
     }
 
     if (piece.type === 'rook') {
-      if (piece.color === 'white' && from.row === 7) {
-        if (from.col === 0) this.state.canCastleQueenSide.white = false;
-        if (from.col === 7) this.state.canCastleKingSide.white = false;
-      } else if (piece.color === 'black' && from.row === 0) {
-        if (from.col === 0) this.state.canCastleQueenSide.black = false;
-        if (from.col === 7) this.state.canCastleKingSide.black = false;
-      }
+      this.revokeRookCastling(piece.color, from);
+    }
+
+    // Capturing a rook on its home square also ends that side's castling
+    if (move.capturedPiece?.type === 'rook') {
+      this.revokeRookCastling(move.capturedPiece.color, move.to);
     }
   }
 
+  private revokeRookCastling(color: Color, square: Position): void {
+    if (square.row !== (color === 'white' ? 7 : 0)) return;
+    if (square.col === 0) this.state.canCastleQueenSide[color] = false;
+    if (square.col === 7) this.state.canCastleKingSide[color] = false;
+  }
+
   private updateEnPassantTarget(move: Move): void {
     const { from, to, piece } = move;
     
@@ -336,6 +728,110 @@ export class ChessGame {
         this.state.isStalemate = true;
       }
     }
+
+    this.state.gameOverReason = this.detectGameOverReason();
+  }
+
+  private detectGameOverReason(): GameOverReason | null {
+    if (this.state.isCheckmate) return 'checkmate';
+    if (this.state.isStalemate) return 'stalemate';
+    if (this.hasInsufficientMaterial()) return 'insufficient-material';
+    if (this.state.halfmoveClock >= 150) return 'seventy-five-move-rule';
+    if (this.countRepetitions() >= 5) return 'fivefold-repetition';
+    return null;
+  }
+
+  // How often the current position has occurred, this time included
+  private countRepetitions(): number {
+    const key = this.getZobristKey();
+    return this.positionKeys.filter(k => keysEqual(k, key)).length;
+  }
+
+  // Positions repeat when the board, side to move, castling rights and
+  // en passant possibilities are the same
+  private getPositionKey(): ZobristKey {
+    const { currentPlayer, canCastleKingSide, canCastleQueenSide, enPassantTarget } = this.state;
+    return hashPosition(
+      this.boardKey,
+      currentPlayer,
+      { kingSide: canCastleKingSide, queenSide: canCastleQueenSide },
+      enPassantTarget && this.canCaptureEnPassant() ? enPassantTarget.col : null
+    );
+  }
+
+  private canCaptureEnPassant(): boolean {
+    const target = this.state.enPassantTarget;
+    if (!target) return false;
+
+    const pawnRow = this.state.currentPlayer === 'white' ? target.row + 1 : target.row - 1;
+    return [target.col - 1, target.col + 1].some(col => {
+      const piece = isValidPosition({ row: pawnRow, col }) ? this.state.board[pawnRow][col] : null;
+      return (
+        piece?.type === 'pawn' &&
+        piece.color === this.state.currentPlayer &&
+        this.getPossibleMoves({ row: pawnRow, col }).some(pos => positionsEqual(pos, target))
+      );
+    });
+  }
+
+  // The side to move ran out of time. It loses unless the opponent could
+  // never checkmate, in which case the game is drawn
+  declareTimeout(): void {
+    if (this.state.gameOverReason) return;
+
+    const opponent = this.state.currentPlayer === 'white' ? 'black' : 'white';
+    this.state.gameOverReason = this.hasMatingMaterial(opponent) ? 'timeout' : 'timeout-vs-insufficient-material';
+  }
+
+  // Whether `color` could checkmate by any series of legal moves, however
+  // unlikely, which is what a flag fall needs to lose. A lone knight needs
+  // an enemy piece other than a queen to hem the king in, and bishops all
+  // on one color need an enemy pawn, knight or bishop of the other color
+  private hasMatingMaterial(color: Color): boolean {
+    const own: { type: PieceType; squareColor: number }[] = [];
+    const enemy: { type: PieceType; squareColor: number }[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = this.state.board[row][col];
+        if (piece && piece.type !== 'king') {
+          (piece.color === color ? own : enemy).push({ type: piece.type, squareColor: (row + col) % 2 });
+        }
+      }
+    }
+
+    if (own.some(({ type }) => type !== 'bishop' && type !== 'knight')) return true;
+    if (own.length === 0) return false;
+    if (own.some(({ type }) => type === 'knight')) {
+      return own.length > 1 || enemy.some(({ type }) => type !== 'queen');
+    }
+
+    const bishopColors = new Set(own.map(({ squareColor }) => squareColor));
+    return (
+      bishopColors.size > 1 ||
+      enemy.some(({ type, squareColor }) => {
+        return type === 'pawn' || type === 'knight' || (type === 'bishop' && !bishopColors.has(squareColor));
+      })
+    );
+  }
+
+  // Neither side can checkmate: bare kings, a single minor piece, or only
+  // bishops that all stand on squares of the same color
+  private hasInsufficientMaterial(): boolean {
+    const minorPieces: { type: PieceType; squareColor: number }[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = this.state.board[row][col];
+        if (!piece || piece.type === 'king') continue;
+        if (piece.type !== 'bishop' && piece.type !== 'knight') return false;
+        minorPieces.push({ type: piece.type, squareColor: (row + col) % 2 });
+      }
+    }
+
+    if (minorPieces.length <= 1) return true;
+    return (
+      minorPieces.every(piece => piece.type === 'bishop') &&
+      minorPieces.every(piece => piece.squareColor === minorPieces[0].squareColor)
+    );
   }
 
   private isInCheck(board: Board, color: Color): boolean {
@@ -357,19 +853,40 @@ export class ChessGame {
     return null;
   }
 
-  private isSquareAttacked(board: Board, target: Position, byColor: Color): boolean {
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const piece = board[row][col];
-        if (piece && piece.color === byColor) {
-          const from = { row, col };
-          const moves = this.calculateLegalMoves(from, piece);
-          if (moves.some(pos => positionsEqual(pos, target))) {
-            return true;
-          }
+  // Checks attack patterns directly on `board`, so it also works for
+  // positions being tried out and never depends on move generation
+  isSquareAttacked(board: Board, target: Position, byColor: Color): boolean {
+    const isAttacker = (row: number, col: number, type: PieceType, orQueen = false) => {
+      if (row < 0 || row > 7 || col < 0 || col > 7) return false;
+      const piece = board[row][col];
+      return !!piece && piece.color === byColor && (piece.type === type || (orQueen && piece.type === 'queen'));
+    };
+
+    // Pawns capture towards the opponent, so look one row behind the target
+    const pawnRow = byColor === 'white' ? target.row + 1 : target.row - 1;
+    if (isAttacker(pawnRow, target.col - 1, 'pawn') || isAttacker(pawnRow, target.col + 1, 'pawn')) {
+      return true;
+    }
+
+    for (const [dr, dc] of KNIGHT_OFFSETS) {
+      if (isAttacker(target.row + dr, target.col + dc, 'knight')) return true;
+    }
+    for (const [dr, dc] of KING_OFFSETS) {
+      if (isAttacker(target.row + dr, target.col + dc, 'king')) return true;
+    }
+
+    for (const [dr, dc, slider] of SLIDER_RAYS) {
+      for (let i = 1; i < 8; i++) {
+        const row = target.row + dr * i;
+        const col = target.col + dc * i;
+        if (row < 0 || row > 7 || col < 0 || col > 7) break;
+        if (board[row][col]) {
+          if (isAttacker(row, col, slider, true)) return true;
+          break;
         }
       }
     }
+
     return false;
   }
 
@@ -400,12 +917,14 @@ export class ChessGame {
           
           for (const to of possibleMoves) {
             const capturedPiece = this.state.board[to.row][to.col];
-            moves.push({
-              from,
-              to,
-              piece,
-              capturedPiece: capturedPiece || undefined
-            });
+            const move: Move = { from, to, piece, capturedPiece: capturedPiece || undefined };
+
+            // Each promotion choice is a separate move
+            if (this.isPromotion(from, to)) {
+              moves.push(...PROMOTION_PIECES.map(promoteTo => ({ ...move, promoteTo })));
+            } else {
+              moves.push(move);
+            }
           }
         }
       }
@@ -414,7 +933,43 @@ export class ChessGame {
     return moves;
   }
 
+  // Counts the leaf nodes of the legal move tree to `depth` plies
+  perft(depth: number): number {
+    if (depth === 0) {
+      return 1;
+    }
+    return Object.values(this.divide(depth)).reduce((total, count) => total + count, 0);
+  }
+
+  // Per-root-move perft counts keyed by long algebraic notation, e.g. "e2e4"
+  divide(depth: number): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    for (const move of this.getAllLegalMoves(this.state.currentPlayer)) {
+      this.makeMoveUnchecked(move);
+      counts[moveToUci(move)] = this.countLeaves(depth - 1);
+      this.unmakeMove();
+    }
+
+    return counts;
+  }
+
+  private countLeaves(depth: number): number {
+    const moves = this.getAllLegalMoves(this.state.currentPlayer);
+    if (depth <= 1) {
+      return depth === 0 ? 1 : moves.length;
+    }
+
+    let count = 0;
+    for (const move of moves) {
+      this.makeMoveUnchecked(move);
+      count += this.countLeaves(depth - 1);
+      this.unmakeMove();
+    }
+    return count;
+  }
+
   applyMove(move: Move): void {
-    this.makeMove(move.from, move.to);
+    this.makeMove(move.from, move.to, move.promoteTo);
   }
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import React from 'react';
+
+interface EvaluationBarProps {
+  // Centipawns from white's point of view
+  evaluation: number;
+  // Full moves until a forced mate, or null when neither side can force
+  // one; the evaluation's sign says which side mates
+  mate: number | null;
+  isFlipped?: boolean;
+}
+
+// White's share of the bar, leaning less as one side's advantage grows so
+// a decisive lead doesn't push it to the edge
+const getWhiteShare = (evaluation: number, mate: number | null) => {
+  if (mate !== null) {
+    return evaluation > 0 ? 1 : 0;
+  }
+  return 1 / (1 + Math.exp(-evaluation / 400));
+};
+
+const formatEvaluation = (evaluation: number, mate: number | null) => {
+  // A mate on the board shows the result instead
+  if (mate !== null) {
+    return mate === 0 ? (evaluation > 0 ? '1-0' : '0-1') : `M${Math.abs(mate)}`;
+  }
+  const pawns = Math.abs(evaluation / 100).toFixed(1);
+  return evaluation >= 0 ? `+${pawns}` : `-${pawns}`;
+};
+
+export const EvaluationBar: React.FC<EvaluationBarProps> = ({ evaluation, mate, isFlipped = false }) => {
+  const whiteShare = getWhiteShare(evaluation, mate);
+  const whiteAhead = evaluation >= 0;
+  // The label sits at the end of the side that is ahead
+  const labelAtBottom = whiteAhead !== isFlipped;
+
+  return (
+    <div
+      className="relative w-8 self-stretch overflow-hidden rounded-sm border-2 border-amber-900 bg-slate-900"
+      title={`Evaluation: ${formatEvaluation(evaluation, mate)}`}
+    >
+      <div
+        className={`absolute inset-x-0 bg-slate-100 transition-all duration-500 ${isFlipped ? 'top-0' : 'bottom-0'}`}
+        style={{ height: `${whiteShare * 100}%` }}
+      />
+      <span
+        className={`absolute inset-x-0 text-center text-[10px] font-bold font-mono ${
+          labelAtBottom ? 'bottom-1' : 'top-1'
+        } ${whiteAhead ? 'text-slate-900' : 'text-slate-100'}`}
+      >
+        {formatEvaluation(evaluation, mate)}
+      </span>
+    </div>
+  );
+};
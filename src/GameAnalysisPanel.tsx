@@ -0,0 +1,116 @@
+import React from 'react';
+import { LineChart } from 'lucide-react';
+import { GameAnalysis, MoveAnalysis, MoveClassification } from './analysis';
+import { Color } from './types';
+
+interface GameAnalysisPanelProps {
+  analysis: GameAnalysis;
+  // The ply shown on the board, or null for the live position
+  selectedPly: number | null;
+  onSelectPly: (ply: number) => void;
+}
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; suffix: string; className: string }> = {
+  best: { label: 'Best', suffix: '', className: 'text-emerald-300' },
+  good: { label: 'Good', suffix: '', className: 'text-slate-300' },
+  inaccuracy: { label: 'Inaccuracy', suffix: '?!', className: 'text-yellow-300' },
+  mistake: { label: 'Mistake', suffix: '?', className: 'text-orange-400' },
+  blunder: { label: 'Blunder', suffix: '??', className: 'text-red-400' }
+};
+
+const MISTAKE_TOTALS: { classification: MoveClassification; label: string }[] = [
+  { classification: 'inaccuracy', label: 'Inaccuracies' },
+  { classification: 'mistake', label: 'Mistakes' },
+  { classification: 'blunder', label: 'Blunders' }
+];
+
+const GRAPH_HEIGHT = 100;
+
+// Maps centipawns to the height of the white area, flattening out as one
+// side's advantage becomes decisive
+const toGraphY = (evaluation: number) => {
+  const share = 1 / (1 + Math.exp(-evaluation / 250));
+  return GRAPH_HEIGHT * (1 - share);
+};
+
+export const GameAnalysisPanel: React.FC<GameAnalysisPanelProps> = ({ analysis, selectedPly, onSelectPly }) => {
+  const { moves, evaluations } = analysis;
+  const width = Math.max(1, evaluations.length - 1);
+  const points = evaluations.map((evaluation, ply) => `${ply},${toGraphY(evaluation).toFixed(1)}`);
+  const shownPly = selectedPly ?? moves.length;
+
+  const countMistakes = (color: Color) => {
+    const played = moves.filter(move => move.color === color);
+    return MISTAKE_TOTALS.map(({ classification, label }) => ({
+      classification,
+      label,
+      count: played.filter(move => move.classification === classification).length
+    }));
+  };
+
+  const renderMove = (move: MoveAnalysis) => {
+    const style = CLASSIFICATION_STYLES[move.classification];
+    return (
+      <button
+        key={move.ply}
+        onClick={() => onSelectPly(move.ply)}
+        className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-sm font-mono transition-colors duration-150 ${
+          move.ply === shownPly ? 'bg-slate-600' : 'hover:bg-slate-700'
+        }`}
+      >
+        <span className="w-10 text-slate-500">
+          {move.moveNumber}{move.color === 'white' ? '.' : '...'}
+        </span>
+        <span className={`w-16 font-semibold ${style.className}`}>{move.san}{style.suffix}</span>
+        <span className={`w-20 text-xs ${style.className}`}>{style.label}</span>
+        {move.bestSan && (
+          <span className="text-xs text-slate-400 truncate">
+            Best: {move.bestSan} (-{(move.centipawnLoss / 100).toFixed(2)})
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 shadow-xl border border-slate-700 space-y-4">
+      <div className="flex items-center gap-2 text-white">
+        <LineChart size={20} />
+        <h3 className="text-xl font-semibold">Game Analysis</h3>
+      </div>
+
+      {/* Evaluation graph; white's share is the light area */}
+      <svg
+        viewBox={`0 0 ${width} ${GRAPH_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-28 rounded-lg bg-slate-900 cursor-pointer"
+        onClick={e => {
+          const { left, width: shownWidth } = e.currentTarget.getBoundingClientRect();
+          onSelectPly(Math.round(((e.clientX - left) / shownWidth) * width));
+        }}
+      >
+        <polygon points={`0,${GRAPH_HEIGHT} ${points.join(' ')} ${width},${GRAPH_HEIGHT}`} className="fill-slate-200" />
+        <line x1={0} y1={GRAPH_HEIGHT / 2} x2={width} y2={GRAPH_HEIGHT / 2} className="stroke-slate-500" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+        <line x1={shownPly} y1={0} x2={shownPly} y2={GRAPH_HEIGHT} className="stroke-blue-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        {(['white', 'black'] as const).map(color => (
+          <div key={color} className="bg-slate-900 rounded-lg p-3">
+            <div className="font-semibold text-white mb-1">{color === 'white' ? 'White' : 'Black'}</div>
+            {countMistakes(color).map(({ classification, label, count }) => (
+              <div key={classification} className="flex justify-between">
+                <span className={CLASSIFICATION_STYLES[classification].className}>{label}</span>
+                <span className="text-slate-300 font-mono">{count}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-900 rounded-lg p-2 max-h-72 overflow-y-auto space-y-0.5">
+        {moves.map(renderMove)}
+      </div>
+    </div>
+  );
+};
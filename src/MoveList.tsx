@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { Color, Move } from './types';
+
+interface MoveListProps {
+  moves: Move[];
+  // Move number and side to move of the starting position
+  firstMoveNumber: number;
+  firstColor: Color;
+  // The ply shown on the board; moves.length is the live position
+  shownPly: number;
+  onSelectPly: (ply: number) => void;
+}
+
+interface MoveRow {
+  number: number;
+  // Plies of each side's move in this row, or null for an empty cell
+  white: number | null;
+  black: number | null;
+}
+
+// Pairs the moves into numbered rows; a game set up with black to move
+// starts with an empty white cell
+const getRows = (moveCount: number, firstMoveNumber: number, firstColor: Color): MoveRow[] => {
+  const rows: MoveRow[] = [];
+  const offset = firstColor === 'black' ? 1 : 0;
+  for (let ply = 1; ply <= moveCount; ply++) {
+    const index = Math.floor((ply - 1 + offset) / 2);
+    const row = (rows[index] ??= { number: firstMoveNumber + index, white: null, black: null });
+    if ((ply + offset) % 2 === 1) {
+      row.white = ply;
+    } else {
+      row.black = ply;
+    }
+  }
+  return rows;
+};
+
+const NAVIGATION_BUTTON_CLASS =
+  'flex items-center justify-center bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1.5 rounded-md transition-colors duration-200';
+
+export const MoveList: React.FC<MoveListProps> = ({ moves, firstMoveNumber, firstColor, shownPly, onSelectPly }) => {
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the shown move in view as the game goes on or the user steps through it
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [shownPly, moves.length]);
+
+  const renderMove = (ply: number | null) => {
+    if (ply === null) {
+      return <span className="text-slate-500 px-2">…</span>;
+    }
+    const isShown = ply === shownPly;
+    return (
+      <button
+        ref={isShown ? selectedRef : undefined}
+        onClick={() => onSelectPly(ply)}
+        className={`text-left px-2 rounded transition-colors duration-150 ${
+          isShown ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+        }`}
+      >
+        {moves[ply - 1].san}
+      </button>
+    );
+  };
+
+  const lastPly = moves.length;
+  const navigation = [
+    { title: 'First position', icon: ChevronsLeft, ply: 0 },
+    { title: 'Previous move', icon: ChevronLeft, ply: shownPly - 1 },
+    { title: 'Next move', icon: ChevronRight, ply: shownPly + 1 },
+    { title: 'Current position', icon: ChevronsRight, ply: lastPly }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="bg-slate-900 rounded-lg p-3 h-40 overflow-y-auto">
+        {moves.length === 0 ? (
+          <p className="text-slate-400 text-sm">No moves yet</p>
+        ) : (
+          <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-y-0.5 text-sm font-mono">
+            {getRows(moves.length, firstMoveNumber, firstColor).map(row => (
+              <React.Fragment key={row.number}>
+                <span className="text-slate-500">{row.number}.</span>
+                {renderMove(row.white)}
+                {renderMove(row.black)}
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {navigation.map(({ title, icon: Icon, ply }) => (
+          <button
+            key={title}
+            title={title}
+            onClick={() => onSelectPly(ply)}
+            disabled={ply < 0 || ply > lastPly || ply === shownPly}
+            className={NAVIGATION_BUTTON_CLASS}
+          >
+            <Icon size={18} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, Puzzle as PuzzleIcon, RotateCcw, SkipForward, Trophy, XCircle } from 'lucide-react';
+import { ChessBoard } from './ChessBoard';
+import { ChessGame } from './ChessGame';
+import { INITIAL_PUZZLE_RATING, PUZZLES, Puzzle, getSolution, isSolutionMove, pickPuzzle, updatePuzzleRating } from './puzzles';
+import { PuzzleProgress, loadPuzzleProgress, savePuzzleProgress } from './storage';
+import { GameState, PieceType, Position } from './types';
+import { positionsEqual } from './utils';
+
+type PuzzleStatus = 'solving' | 'solved' | 'failed';
+
+// Long enough to see the reply being played
+const REPLY_DELAY_MS = 500;
+
+const BUTTON_CLASS =
+  'flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-white py-3 px-4 rounded-lg font-semibold transition-colors duration-200';
+
+const loadProgress = (): PuzzleProgress => loadPuzzleProgress() ?? { ...INITIAL_PUZZLE_RATING, results: {} };
+
+export const PuzzleTrainer: React.FC = () => {
+  const [progress, setProgress] = useState(loadProgress);
+  const [puzzle, setPuzzle] = useState<Puzzle>(() => pickPuzzle(PUZZLES, progress.rating, progress.results));
+  const [game] = useState(() => new ChessGame(puzzle.fen));
+  const [gameState, setGameState] = useState<GameState>(() => game.getGameState());
+  // How many moves of the solution have been played
+  const [solutionPly, setSolutionPly] = useState(0);
+  const [status, setStatus] = useState<PuzzleStatus>('solving');
+  // The rating change from this attempt, if it was the first at the puzzle
+  const [ratingChange, setRatingChange] = useState<number | null>(null);
+  const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
+  const [possibleMoves, setPossibleMoves] = useState<Position[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Position; to: Position } | null>(null);
+
+  const solution = useMemo(() => getSolution(puzzle), [puzzle]);
+  const solutionSan = puzzle.moves.split(' ');
+  const solverColor = game.getPositionAt(0).currentPlayer;
+
+  const updateGameState = () => {
+    setGameState(game.getGameState());
+  };
+
+  const startPuzzle = (next: Puzzle) => {
+    Object.assign(game, new ChessGame(next.fen));
+    setPuzzle(next);
+    setSolutionPly(0);
+    setStatus('solving');
+    setRatingChange(null);
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setPendingPromotion(null);
+    updateGameState();
+  };
+
+  // Only the first attempt at a puzzle counts towards the rating
+  const recordResult = (solved: boolean) => {
+    setStatus(solved ? 'solved' : 'failed');
+    if (progress.results[puzzle.id]) {
+      return;
+    }
+    const rating = updatePuzzleRating(progress, puzzle.rating, solved);
+    const updated: PuzzleProgress = { ...rating, results: { ...progress.results, [puzzle.id]: solved ? 'solved' : 'failed' } };
+    setRatingChange(rating.rating - progress.rating);
+    setProgress(updated);
+    savePuzzleProgress(updated);
+  };
+
+  const playMove = (from: Position, to: Position, promoteTo?: PieceType) => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    const move = game
+      .getAllLegalMoves(solverColor)
+      .find(legal => positionsEqual(legal.from, from) && positionsEqual(legal.to, to) && legal.promoteTo === promoteTo);
+    if (!move) {
+      return;
+    }
+    if (!isSolutionMove(game, solution[solutionPly], move)) {
+      recordResult(false);
+      return;
+    }
+
+    game.applyMove(move);
+    setSolutionPly(solutionPly + 1);
+    updateGameState();
+    if (solutionPly + 1 >= solution.length || game.getGameState().isCheckmate) {
+      recordResult(true);
+    }
+  };
+
+  const handleSquareClick = (position: Position) => {
+    if (status !== 'solving' || gameState.currentPlayer !== solverColor) {
+      return;
+    }
+
+    if (selectedSquare && possibleMoves.some(pos => positionsEqual(pos, position))) {
+      if (game.isPromotion(selectedSquare, position)) {
+        setPendingPromotion({ from: selectedSquare, to: position });
+      } else {
+        playMove(selectedSquare, position);
+      }
+      return;
+    }
+
+    const moves = selectedSquare && positionsEqual(selectedSquare, position) ? [] : game.getPossibleMoves(position);
+    setSelectedSquare(moves.length > 0 ? position : null);
+    setPossibleMoves(moves);
+  };
+
+  const handlePromotionSelect = (pieceType: PieceType) => {
+    if (pendingPromotion) {
+      playMove(pendingPromotion.from, pendingPromotion.to, pieceType);
+      setPendingPromotion(null);
+    }
+  };
+
+  // The opponent answers with the solution's next move
+  useEffect(() => {
+    if (status !== 'solving' || gameState.currentPlayer === solverColor) {
+      return;
+    }
+    const reply = solution[solutionPly];
+    const timer = setTimeout(() => {
+      game.applyMove(reply);
+      setSolutionPly(ply => ply + 1);
+      setGameState(game.getGameState());
+    }, REPLY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [game, solution, gameState, status, solverColor, solutionPly]);
+
+  const getStatusMessage = () => {
+    const side = solverColor === 'white' ? 'White' : 'Black';
+    switch (status) {
+      case 'solved':
+        return 'Solved!';
+      case 'failed':
+        return `Not quite: the move was ${solutionSan[solutionPly]}`;
+      default:
+        return solutionPly === 0 ? `Find the best move for ${side}` : 'Correct, keep going';
+    }
+  };
+
+  const solvedCount = Object.values(progress.results).filter(result => result === 'solved').length;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 items-start justify-center">
+      <ChessBoard
+        board={gameState.board}
+        selectedSquare={selectedSquare}
+        possibleMoves={possibleMoves}
+        onSquareClick={handleSquareClick}
+        isFlipped={solverColor === 'black'}
+        promotion={pendingPromotion && { square: pendingPromotion.to, color: solverColor }}
+        onPromotionSelect={handlePromotionSelect}
+        onPromotionCancel={() => setPendingPromotion(null)}
+        hint={status === 'failed' ? solution[solutionPly] : null}
+      />
+
+      <div className="bg-slate-800 rounded-xl p-6 shadow-xl border border-slate-700 min-w-[300px] space-y-6">
+        <div className="flex items-center gap-2 text-white">
+          <PuzzleIcon size={20} />
+          <h2 className="text-lg font-semibold">Puzzle</h2>
+          <span className="ml-auto text-sm text-slate-400">Rated {puzzle.rating}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {puzzle.themes.map(theme => (
+            <span key={theme} className="text-xs bg-slate-700 text-slate-300 rounded-full px-2 py-1">{theme}</span>
+          ))}
+        </div>
+
+        <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${
+          status === 'solved' ? 'bg-emerald-900 text-emerald-100' :
+          status === 'failed' ? 'bg-red-900 text-red-100' :
+          solverColor === 'white' ? 'bg-white text-black' : 'bg-slate-900 text-white'
+        }`}>
+          {status === 'solved' && <CheckCircle2 size={20} />}
+          {status === 'failed' && <XCircle size={20} />}
+          <span className="font-semibold">{getStatusMessage()}</span>
+        </div>
+
+        <div className="bg-slate-900 rounded-lg p-3 text-sm text-slate-300 space-y-1">
+          <div className="flex items-center gap-2">
+            <Trophy size={16} className="text-yellow-400" />
+            <span>Your rating</span>
+            <span className="ml-auto font-mono text-white">
+              {Math.round(progress.rating)} ± {Math.round(progress.deviation)}
+            </span>
+          </div>
+          {ratingChange !== null && (
+            <div className={`text-right font-mono ${ratingChange >= 0 ? 'text-emerald-300' : 'text-red-400'}`}>
+              {ratingChange >= 0 ? '+' : ''}{Math.round(ratingChange)}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Solved</span>
+            <span className="font-mono">{solvedCount} / {PUZZLES.length}</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => startPuzzle(puzzle)} className={BUTTON_CLASS}>
+            <RotateCcw size={20} />
+            Retry
+          </button>
+          <button onClick={() => startPuzzle(pickPuzzle(PUZZLES, progress.rating, progress.results, puzzle.id))} className={BUTTON_CLASS}>
+            <SkipForward size={20} />
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import { Move } from './types';
+import { ZobristKey } from './zobrist';
+
+// How a stored score relates to the true value of the position: alpha-beta
+// only proves a lower bound after a cutoff and an upper bound when no move
+// reached alpha
+export type Bound = 'exact' | 'lower' | 'upper';
+
+export interface TranspositionEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  bestMove: Move | null;
+}
+
+const BOUNDS: Bound[] = ['exact', 'lower', 'upper'];
+
+// A fixed-size hash table of searched positions, indexed by the low bits of
+// the Zobrist key. Each slot keeps one entry; a deeper search of the same
+// position is never overwritten by a shallower one
+export class TranspositionTable {
+  private readonly mask: number;
+  private readonly keysHi: Uint32Array;
+  private readonly keysLo: Uint32Array;
+  private readonly depths: Int8Array;
+  private readonly scores: Int32Array;
+  // 0 marks an empty slot, otherwise the index into BOUNDS plus one
+  private readonly bounds: Uint8Array;
+  private readonly bestMoves: (Move | null)[];
+
+  constructor(sizeBits = 18) {
+    const size = 1 << sizeBits;
+    this.mask = size - 1;
+    this.keysHi = new Uint32Array(size);
+    this.keysLo = new Uint32Array(size);
+    this.depths = new Int8Array(size);
+    this.scores = new Int32Array(size);
+    this.bounds = new Uint8Array(size);
+    this.bestMoves = new Array(size).fill(null);
+  }
+
+  probe(key: ZobristKey): TranspositionEntry | null {
+    const index = key.lo & this.mask;
+    if (!this.bounds[index] || this.keysHi[index] !== key.hi || this.keysLo[index] !== key.lo) {
+      return null;
+    }
+    return {
+      depth: this.depths[index],
+      score: this.scores[index],
+      bound: BOUNDS[this.bounds[index] - 1],
+      bestMove: this.bestMoves[index]
+    };
+  }
+
+  store(key: ZobristKey, entry: TranspositionEntry): void {
+    const index = key.lo & this.mask;
+    const isSamePosition = this.keysHi[index] === key.hi && this.keysLo[index] === key.lo;
+    if (this.bounds[index] && isSamePosition && this.depths[index] > entry.depth) {
+      return;
+    }
+
+    this.keysHi[index] = key.hi;
+    this.keysLo[index] = key.lo;
+    this.depths[index] = entry.depth;
+    this.scores[index] = entry.score;
+    this.bounds[index] = BOUNDS.indexOf(entry.bound) + 1;
+    // Keep the old move if this search of the position didn't find one
+    this.bestMoves[index] = entry.bestMove ?? (isSamePosition ? this.bestMoves[index] : null);
+  }
+
+  clear(): void {
+    this.bounds.fill(0);
+    this.bestMoves.fill(null);
+  }
+}
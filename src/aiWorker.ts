@@ -0,0 +1,17 @@
+import { ChessAI } from './ChessAI';
+import { AIWorkerRequest, AIWorkerResponse, createRequestHandler } from './aiWorkerProtocol';
+import { getBuiltInBook } from './openingBook';
+
+// Tablebases aren't built here: the page builds them once in a worker of
+// its own and sends each table over as it is ready
+const ai = new ChessAI();
+ai.setOpeningBook(getBuiltInBook());
+
+const post = (response: AIWorkerResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+const handleRequest = createRequestHandler(ai, post);
+
+self.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+  handleRequest(event.data);
+};
@@ -0,0 +1,102 @@
+import { ChessAI } from './ChessAI';
+import { ChessGame } from './ChessGame';
+import { FallbackBook, OpeningBook, getBuiltInBook } from './openingBook';
+import { PolyglotBook } from './polyglot';
+import { TablebaseData, loadTablebase } from './tablebase';
+import { Move, SearchIteration, SearchLimits, SearchResult } from './types';
+
+// A search for the move to play, or an analysis of the position. The
+// position is sent as the starting FEN plus the moves played, so the worker
+// also knows the game history needed for repetition detection.
+export type AIWorkerSearchRequest = {
+  type: 'search' | 'analyze';
+  id: number;
+  startingFen: string;
+  moves: Pick<Move, 'from' | 'to' | 'promoteTo'>[];
+  limits: SearchLimits;
+};
+
+// Messages from the page to the AI worker: searches, and what they use.
+// `activeId` is shared memory holding the id of the search allowed to run,
+// so the page can stop a search while the worker is busy; `book` is the
+// Polyglot book to play openings from (null for just the built-in book);
+// tablebases are built once and sent to each worker
+export type AIWorkerRequest =
+  | AIWorkerSearchRequest
+  | { type: 'stop-flag'; activeId: Int32Array }
+  | { type: 'book'; data: ArrayBuffer | null }
+  | { type: 'tablebase'; data: TablebaseData };
+
+// Messages from the AI worker back to the page. Every response carries the
+// id of the search it belongs to so that stale results can be ignored.
+export type AIWorkerResponse =
+  | { type: 'progress'; id: number; iteration: SearchIteration }
+  | { type: 'result'; id: number; result: SearchResult }
+  | { type: 'analysis'; id: number; analysis: SearchIteration }
+  | { type: 'error'; id: number; message: string };
+
+export const createSearchRequest = (
+  id: number,
+  game: ChessGame,
+  limits: SearchLimits,
+  type: AIWorkerSearchRequest['type'] = 'search'
+): AIWorkerSearchRequest => ({
+  type,
+  id,
+  startingFen: game.getStartingFen(),
+  moves: game.getGameState().moveHistory.map(({ from, to, promoteTo }) => ({ from, to, promoteTo })),
+  limits
+});
+
+// A user's book is still backed by the built-in one for the positions it
+// doesn't cover
+const loadBook = (data: ArrayBuffer | null): OpeningBook =>
+  data ? new FallbackBook(new PolyglotBook(data), getBuiltInBook()) : getBuiltInBook();
+
+// The worker's side of the protocol, shared by the browser and Node
+// workers: returns the handler for each request. Books are checked with
+// PolyglotBook before they are sent
+export const createRequestHandler = (ai: ChessAI, post: (response: AIWorkerResponse) => void) => {
+  let activeId: Int32Array | null = null;
+  let runningId = 0;
+  ai.setStopCheck(() => activeId !== null && Atomics.load(activeId, 0) !== runningId);
+
+  return (request: AIWorkerRequest) => {
+    switch (request.type) {
+      case 'stop-flag':
+        activeId = request.activeId;
+        break;
+      case 'book':
+        ai.setOpeningBook(loadBook(request.data));
+        break;
+      case 'tablebase':
+        loadTablebase(request.data);
+        break;
+      default:
+        runningId = request.id;
+        runSearchRequest(ai, request, post);
+    }
+  };
+};
+
+const runSearchRequest = (ai: ChessAI, request: AIWorkerSearchRequest, post: (response: AIWorkerResponse) => void) => {
+  const { type, id, startingFen, moves, limits } = request;
+
+  try {
+    const game = new ChessGame(startingFen);
+    moves.forEach((move, index) => {
+      if (!game.makeMove(move.from, move.to, move.promoteTo)) {
+        throw new Error(`Move ${index + 1} of the game history is illegal`);
+      }
+    });
+
+    const onIteration = (iteration: SearchIteration) => post({ type: 'progress', id, iteration });
+    if (type === 'analyze') {
+      post({ type: 'analysis', id, analysis: ai.analyze(game, limits, onIteration) });
+    } else {
+      post({ type: 'result', id, result: ai.search(game, limits, onIteration) });
+    }
+  } catch (error) {
+    post({ type: 'error', id, message: (error as Error).message });
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_EVALUATION, analyzeGame, classifyMove } from './analysis';
+import { ChessAI } from './ChessAI';
+import { ChessGame } from './ChessGame';
+
+const playSan = (fen: string, moves: string[]) => {
+  const game = new ChessGame(fen);
+  for (const san of moves) {
+    game.applyMove(game.moveFromSan(san)!);
+  }
+  return game;
+};
+
+const analyze = (game: ChessGame) => {
+  const ai = new ChessAI();
+  return analyzeGame(game, async position => ai.analyze(position, { maxDepth: 3 }));
+};
+
+describe('classifyMove', () => {
+  it('grades moves by centipawn loss', () => {
+    expect([0, 20, 60, 150, 500].map(classifyMove)).toEqual(['best', 'good', 'inaccuracy', 'mistake', 'blunder']);
+  });
+});
+
+describe('analyzeGame', () => {
+  it('finds a blunder and the move that should have been played', async () => {
+    // White puts the queen where the pawn takes it, instead of taking the rook
+    const game = playSan('6k1/8/2p5/8/r7/8/8/3Q2K1 w - - 0 1', ['Qd5+', 'cxd5']);
+    const analysis = (await analyze(game))!;
+
+    const [blunder, capture] = analysis.moves;
+    expect(blunder).toMatchObject({ ply: 1, moveNumber: 1, color: 'white', san: 'Qd5+', classification: 'blunder' });
+    expect(blunder.bestSan).toBe('Qxa4');
+    expect(capture).toMatchObject({ classification: 'best', bestMove: null, bestSan: null });
+    expect(analysis.evaluations).toHaveLength(3);
+    expect(analysis.evaluations[2]).toBeLessThan(analysis.evaluations[0] - 500);
+  });
+
+  it('scores the final checkmate and forced moves', async () => {
+    // Black's king has one move after the check, and then gets mated
+    const game = playSan('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', ['Ra8#']);
+    const analysis = (await analyze(game))!;
+    expect(analysis.moves[0].classification).toBe('best');
+    expect(analysis.evaluations).toEqual([MAX_EVALUATION, MAX_EVALUATION]);
+
+    const forced = playSan('7k/8/6K1/8/8/8/8/R7 w - - 0 1', ['Ra7', 'Kg8', 'Ra8#']);
+    const forcedAnalysis = (await analyze(forced))!;
+    expect(forcedAnalysis.evaluations.every(evaluation => evaluation === MAX_EVALUATION)).toBe(true);
+  });
+
+  it('gives up when an analysis is cancelled', async () => {
+    const game = playSan('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1', ['e4']);
+    expect(await analyzeGame(game, async () => null)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { ChessGame } from './ChessGame';
+import { Color, Move, SearchIteration } from './types';
+import { movesEqual } from './utils';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveAnalysis {
+  // 1-based, as in the move list
+  ply: number;
+  moveNumber: number;
+  color: Color;
+  san: string;
+  classification: MoveClassification;
+  // How much worse the move scored than the engine's choice, in centipawns
+  centipawnLoss: number;
+  // The engine's choice, unless the move played was just as good
+  bestMove: Move | null;
+  bestSan: string | null;
+}
+
+export interface GameAnalysis {
+  moves: MoveAnalysis[];
+  // Centipawns from white's point of view for every position from the
+  // start, so one more than there are moves
+  evaluations: number[];
+}
+
+// Scores are capped here, so a forced mate counts as a very large advantage
+// rather than outweighing everything else in the graph and the losses
+export const MAX_EVALUATION = 1000;
+
+// The least centipawn loss of each classification
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ['blunder', 300],
+  ['mistake', 100],
+  ['inaccuracy', 50],
+  ['good', 1]
+];
+
+export const classifyMove = (centipawnLoss: number): MoveClassification => {
+  return CLASSIFICATION_THRESHOLDS.find(([, threshold]) => centipawnLoss >= threshold)?.[0] ?? 'best';
+};
+
+// The side to move's score, capped so a forced mate is the largest value
+const getScore = ({ score, mate }: SearchIteration): number => {
+  const capped = mate !== null ? Math.sign(score) * MAX_EVALUATION : score;
+  return Math.max(-MAX_EVALUATION, Math.min(MAX_EVALUATION, capped));
+};
+
+// Analyzes every position of the game in turn and compares each move
+// played with the engine's choice. Resolves with null if an analysis is
+// cancelled, such as by starting a new game
+export const analyzeGame = async (
+  game: ChessGame,
+  analyze: (position: ChessGame) => Promise<SearchIteration | null>,
+  onProgress?: (done: number, total: number) => void
+): Promise<GameAnalysis | null> => {
+  const playedMoves = game.getGameState().moveHistory;
+  const total = playedMoves.length + 1;
+  const replay = new ChessGame(game.getStartingFen());
+  const positions: { moveNumber: number; color: Color; score: number; bestMove: Move | null; bestSan: string | null }[] = [];
+
+  for (let ply = 0; ply < total; ply++) {
+    onProgress?.(ply, total);
+    const analysis = await analyze(replay);
+    if (!analysis) return null;
+
+    const played = playedMoves[ply];
+    const bestMove = analysis.pv[0] ?? null;
+    const isBest = !played || !bestMove || movesEqual(bestMove, played);
+    positions.push({
+      moveNumber: replay.getGameState().fullmoveNumber,
+      color: replay.getCurrentPlayer(),
+      score: getScore(analysis),
+      bestMove: isBest ? null : bestMove,
+      bestSan: isBest ? null : replay.getSanLine([bestMove])[0] ?? null
+    });
+    if (played) {
+      replay.makeMove(played.from, played.to, played.promoteTo);
+    }
+  }
+  onProgress?.(total, total);
+
+  const moves = playedMoves.map((move, index): MoveAnalysis => {
+    const { moveNumber, color, score, bestMove, bestSan } = positions[index];
+    const centipawnLoss = bestMove ? Math.max(0, score + positions[index + 1].score) : 0;
+    return {
+      ply: index + 1,
+      moveNumber,
+      color,
+      san: move.san ?? '',
+      classification: classifyMove(centipawnLoss),
+      centipawnLoss,
+      bestMove,
+      bestSan
+    };
+  });
+
+  return {
+    moves,
+    evaluations: positions.map(({ color, score }) => (color === 'white' ? score : -score))
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { squareToPosition } from './utils';
+
+const castlingMoves = (fen: string): string[] => {
+  const game = new ChessGame(fen);
+  const color = game.getGameState().currentPlayer;
+  return game
+    .getAllLegalMoves(color)
+    .filter(move => move.piece.type === 'king' && Math.abs(move.to.col - move.from.col) === 2)
+    .map(move => (move.to.col === 6 ? 'O-O' : 'O-O-O'))
+    .sort();
+};
+
+const play = (game: ChessGame, from: string, to: string) => {
+  expect(game.makeMove(squareToPosition(from)!, squareToPosition(to)!)).toBe(true);
+};
+
+describe('castling', () => {
+  it('allows both sides when the path is clear and safe', () => {
+    expect(castlingMoves('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1')).toEqual(['O-O', 'O-O-O']);
+    expect(castlingMoves('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1')).toEqual(['O-O', 'O-O-O']);
+  });
+
+  it('is not allowed out of check', () => {
+    expect(castlingMoves('r3k2r/8/8/8/4r3/8/8/R3K2R w KQkq - 0 1')).toEqual([]);
+    expect(castlingMoves('r3k2r/8/8/1B6/8/8/8/4K3 b kq - 0 1')).toEqual([]);
+  });
+
+  it('is not allowed through an attacked square', () => {
+    expect(castlingMoves('4kr2/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual(['O-O-O']);
+    expect(castlingMoves('r3k2r/8/8/8/8/8/8/3RK3 b kq - 0 1')).toEqual(['O-O']);
+  });
+
+  it('is not allowed onto an attacked square', () => {
+    expect(castlingMoves('4k3/8/8/2b5/8/8/8/R3K2R w KQ - 0 1')).toEqual(['O-O-O']);
+    expect(castlingMoves('2r1k3/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual(['O-O']);
+  });
+
+  it('ignores an attack on b1 that the king does not cross', () => {
+    expect(castlingMoves('1r2k3/8/8/8/8/8/8/R3K2R w KQ - 0 1')).toEqual(['O-O', 'O-O-O']);
+  });
+
+  it('counts pawn and knight attacks on empty squares', () => {
+    expect(castlingMoves('4k3/8/8/8/8/8/4p3/R3K2R w KQ - 0 1')).toEqual([]);
+    expect(castlingMoves('4k3/8/8/8/8/4n3/8/R3K2R w KQ - 0 1')).toEqual([]);
+  });
+
+  it('requires every square between king and rook to be empty', () => {
+    expect(castlingMoves('4k3/8/8/8/8/8/8/RN2K1NR w KQ - 0 1')).toEqual([]);
+  });
+
+  it('requires the rook on its home square', () => {
+    expect(castlingMoves('4k3/8/8/8/8/8/8/R3K3 w KQ - 0 1')).toEqual(['O-O-O']);
+    expect(castlingMoves('4k3/8/8/8/8/8/8/n3K2R w KQ - 0 1')).toEqual(['O-O']);
+  });
+
+  it('loses the right when the rook is captured at home', () => {
+    const game = new ChessGame('4k3/8/8/8/8/8/6b1/R3K2R b KQ - 0 1');
+    play(game, 'g2', 'h1');
+    expect(game.toFen()).toBe('4k3/8/8/8/8/8/8/R3K2b w Q - 0 2');
+  });
+
+  it('loses the right when the king or rook moves, even if it returns', () => {
+    const game = new ChessGame('r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1');
+    play(game, 'h1', 'h2');
+    play(game, 'e8', 'd8');
+    play(game, 'h2', 'h1');
+    play(game, 'd8', 'e8');
+    expect(game.toFen().split(' ')[2]).toBe('Q');
+    expect(castlingMoves(game.toFen())).toEqual(['O-O-O']);
+  });
+
+  it('moves the rook and can be undone', () => {
+    const fen = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+    const game = new ChessGame(fen);
+    play(game, 'e1', 'c1');
+    expect(game.toFen()).toBe('r3k2r/8/8/8/8/8/8/2KR3R b kq - 1 1');
+    expect(game.getGameState().moveHistory[0].san).toBe('O-O-O');
+    game.undoMove();
+    expect(game.toFen()).toBe(fen);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EVALUATION_WEIGHTS, MAX_PHASE, evaluate, getGamePhase } from './evaluation';
+import { ChessGame } from './ChessGame';
+import { ReadonlyBoard } from './types';
+
+const boardOf = (fen: string) => new ChessGame(fen).getBoardView();
+
+// The same position with the board turned around and the colors swapped
+const mirror = (board: ReadonlyBoard): ReadonlyBoard => {
+  return [...board].reverse().map(row =>
+    row.map(piece => piece && { ...piece, color: piece.color === 'white' ? 'black' : 'white' })
+  );
+};
+
+describe('evaluate', () => {
+  it('scores mirrored positions the same for the other side', () => {
+    for (const fen of [
+      'r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N2N2/PP2BPPP/R1BQK2R b KQ - 1 8',
+      'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+      '8/5k2/3p4/1P6/P7/8/6K1/8 w - - 0 1'
+    ]) {
+      const board = boardOf(fen);
+      expect(evaluate(mirror(board), 'black')).toBe(evaluate(board, 'white'));
+      expect(evaluate(board, 'black')).toBe(-evaluate(board, 'white'));
+    }
+  });
+
+  it('measures the game phase by the pieces left', () => {
+    expect(getGamePhase(boardOf('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'))).toBe(MAX_PHASE);
+    expect(getGamePhase(boardOf('8/5k2/3p4/1P6/P7/8/6K1/8 w - - 0 1'))).toBe(0);
+  });
+
+  it('centralizes the king in the endgame but keeps it home in the middlegame', () => {
+    expect(evaluate(boardOf('8/5k2/8/8/4K3/8/P7/8 w - - 0 1'), 'white'))
+      .toBeGreaterThan(evaluate(boardOf('8/5k2/8/8/8/8/P7/7K w - - 0 1'), 'white'));
+    expect(evaluate(boardOf('rnbq1rk1/pppppppp/8/8/8/4K3/PPPPPPPP/RNBQ1BNR w - - 0 1'), 'white'))
+      .toBeLessThan(evaluate(boardOf('rnbq1rk1/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1'), 'white'));
+  });
+
+  it('rewards passed pawns and penalizes doubled and isolated ones', () => {
+    // The b-pawn is passed in the first position and blocked in the second
+    expect(evaluate(boardOf('6k1/8/8/1P6/8/8/8/6K1 w - - 0 1'), 'white'))
+      .toBeGreaterThan(evaluate(boardOf('6k1/1p6/8/1P6/8/8/8/6K1 w - - 0 1'), 'white') + 100);
+
+    const doubled = boardOf('6k1/pp6/8/8/8/1P6/1P6/6K1 w - - 0 1');
+    const noPawnStructure = {
+      ...DEFAULT_EVALUATION_WEIGHTS,
+      doubledPawn: { mg: 0, eg: 0 },
+      isolatedPawn: { mg: 0, eg: 0 }
+    };
+    // Black's pawns are connected; white's are doubled and isolated
+    expect(evaluate(doubled, 'white')).toBeLessThan(evaluate(doubled, 'white', noPawnStructure));
+  });
+
+  it('weights each term separately', () => {
+    const board = boardOf('6k1/8/8/8/8/8/8/2B1KB2 w - - 0 1');
+    const withPair = { ...DEFAULT_EVALUATION_WEIGHTS, bishopPair: { mg: 40, eg: 40 } };
+    const withoutPair = { ...DEFAULT_EVALUATION_WEIGHTS, bishopPair: { mg: 0, eg: 0 } };
+    expect(evaluate(board, 'white', withPair) - evaluate(board, 'white', withoutPair)).toBe(40);
+  });
+});
@@ -0,0 +1,320 @@
+import { Color, PieceType, ReadonlyBoard } from './types';
+
+// A term's value in the middlegame and in the endgame; positions in between
+// blend the two by game phase
+export interface TaperedWeight {
+  mg: number;
+  eg: number;
+}
+
+// Every term is counted in its own unit (a passed pawn step, an extra pawn
+// on a file, a reachable square...) and multiplied by its weight, so
+// penalties have negative weights
+export interface EvaluationWeights {
+  passedPawn: TaperedWeight;
+  doubledPawn: TaperedWeight;
+  isolatedPawn: TaperedWeight;
+  bishopPair: TaperedWeight;
+  // Half of it on a half-open file
+  rookOpenFile: TaperedWeight;
+  // Per own pawn in the two ranks in front of the king
+  pawnShield: TaperedWeight;
+  // Per square a knight, bishop, rook or queen can move to
+  mobility: TaperedWeight;
+}
+
+export const DEFAULT_EVALUATION_WEIGHTS: EvaluationWeights = {
+  passedPawn: { mg: 5, eg: 15 },
+  doubledPawn: { mg: -10, eg: -20 },
+  isolatedPawn: { mg: -10, eg: -15 },
+  bishopPair: { mg: 30, eg: 50 },
+  rookOpenFile: { mg: 20, eg: 10 },
+  pawnShield: { mg: 10, eg: 0 },
+  mobility: { mg: 3, eg: 3 }
+};
+
+export const PIECE_VALUES: Record<PieceType, number> = {
+  pawn: 100,
+  knight: 320,
+  bishop: 330,
+  rook: 500,
+  queen: 900,
+  king: 20000
+};
+
+// Non-pawn material left on the board, from 24 with every piece on the board
+// down to 0 in a king and pawn ending
+const PHASE_WEIGHTS: Record<PieceType, number> = { pawn: 0, knight: 1, bishop: 1, rook: 2, queen: 4, king: 0 };
+export const MAX_PHASE = 24;
+
+// Passed pawn steps by rank, counted from the pawn's own back rank
+const PASSED_PAWN_STEPS = [0, 1, 1, 2, 3, 5, 8, 0];
+
+const KNIGHT_OFFSETS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const BISHOP_RAYS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_RAYS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const QUEEN_RAYS = [...BISHOP_RAYS, ...ROOK_RAYS];
+
+// Piece-square tables from white's side of the board: the first row is the
+// eighth rank. Black's squares are mirrored
+const PAWN_TABLE = [
+  [0,  0,  0,  0,  0,  0,  0,  0],
+  [50, 50, 50, 50, 50, 50, 50, 50],
+  [10, 10, 20, 30, 30, 20, 10, 10],
+  [5,  5, 10, 25, 25, 10,  5,  5],
+  [0,  0,  0, 20, 20,  0,  0,  0],
+  [5, -5,-10,  0,  0,-10, -5,  5],
+  [5, 10, 10,-20,-20, 10, 10,  5],
+  [0,  0,  0,  0,  0,  0,  0,  0]
+];
+
+// Pawns race to promote once the pieces come off
+const PAWN_ENDGAME_TABLE = [
+  [0,  0,  0,  0,  0,  0,  0,  0],
+  [50, 50, 50, 50, 50, 50, 50, 50],
+  [30, 30, 30, 30, 30, 30, 30, 30],
+  [20, 20, 20, 20, 20, 20, 20, 20],
+  [10, 10, 10, 10, 10, 10, 10, 10],
+  [5,  5,  5,  5,  5,  5,  5,  5],
+  [0,  0,  0,  0,  0,  0,  0,  0],
+  [0,  0,  0,  0,  0,  0,  0,  0]
+];
+
+const KNIGHT_TABLE = [
+  [-50,-40,-30,-30,-30,-30,-40,-50],
+  [-40,-20,  0,  0,  0,  0,-20,-40],
+  [-30,  0, 10, 15, 15, 10,  0,-30],
+  [-30,  5, 15, 20, 20, 15,  5,-30],
+  [-30,  0, 15, 20, 20, 15,  0,-30],
+  [-30,  5, 10, 15, 15, 10,  5,-30],
+  [-40,-20,  0,  5,  5,  0,-20,-40],
+  [-50,-40,-30,-30,-30,-30,-40,-50]
+];
+
+const BISHOP_TABLE = [
+  [-20,-10,-10,-10,-10,-10,-10,-20],
+  [-10,  0,  0,  0,  0,  0,  0,-10],
+  [-10,  0,  5, 10, 10,  5,  0,-10],
+  [-10,  5,  5, 10, 10,  5,  5,-10],
+  [-10,  0, 10, 10, 10, 10,  0,-10],
+  [-10, 10, 10, 10, 10, 10, 10,-10],
+  [-10,  5,  0,  0,  0,  0,  5,-10],
+  [-20,-10,-10,-10,-10,-10,-10,-20]
+];
+
+const ROOK_TABLE = [
+  [0,  0,  0,  0,  0,  0,  0,  0],
+  [5, 10, 10, 10, 10, 10, 10,  5],
+  [-5,  0,  0,  0,  0,  0,  0, -5],
+  [-5,  0,  0,  0,  0,  0,  0, -5],
+  [-5,  0,  0,  0,  0,  0,  0, -5],
+  [-5,  0,  0,  0,  0,  0,  0, -5],
+  [-5,  0,  0,  0,  0,  0,  0, -5],
+  [0,  0,  0,  5,  5,  0,  0,  0]
+];
+
+const QUEEN_TABLE = [
+  [-20,-10,-10, -5, -5,-10,-10,-20],
+  [-10,  0,  0,  0,  0,  0,  0,-10],
+  [-10,  0,  5,  5,  5,  5,  0,-10],
+  [-5,  0,  5,  5,  5,  5,  0, -5],
+  [0,  0,  5,  5,  5,  5,  0, -5],
+  [-10,  5,  5,  5,  5,  5,  0,-10],
+  [-10,  0,  5,  0,  0,  0,  0,-10],
+  [-20,-10,-10, -5, -5,-10,-10,-20]
+];
+
+// Tucked away behind its pawns while there are pieces to attack it...
+const KING_MIDDLEGAME_TABLE = [
+  [-30,-40,-40,-50,-50,-40,-40,-30],
+  [-30,-40,-40,-50,-50,-40,-40,-30],
+  [-30,-40,-40,-50,-50,-40,-40,-30],
+  [-30,-40,-40,-50,-50,-40,-40,-30],
+  [-20,-30,-30,-40,-40,-30,-30,-20],
+  [-10,-20,-20,-20,-20,-20,-20,-10],
+  [20, 20,  0,  0,  0,  0, 20, 20],
+  [20, 30, 10,  0,  0, 10, 30, 20]
+];
+
+// ...and in the centre once there aren't
+const KING_ENDGAME_TABLE = [
+  [-50,-40,-30,-20,-20,-30,-40,-50],
+  [-30,-20,-10,  0,  0,-10,-20,-30],
+  [-30,-10, 20, 30, 30, 20,-10,-30],
+  [-30,-10, 30, 40, 40, 30,-10,-30],
+  [-30,-10, 30, 40, 40, 30,-10,-30],
+  [-30,-10, 20, 30, 30, 20,-10,-30],
+  [-30,-30,  0,  0,  0,  0,-30,-30],
+  [-50,-30,-30,-30,-30,-30,-30,-50]
+];
+
+const MIDDLEGAME_TABLES: Record<PieceType, number[][]> = {
+  pawn: PAWN_TABLE,
+  knight: KNIGHT_TABLE,
+  bishop: BISHOP_TABLE,
+  rook: ROOK_TABLE,
+  queen: QUEEN_TABLE,
+  king: KING_MIDDLEGAME_TABLE
+};
+
+const ENDGAME_TABLES: Record<PieceType, number[][]> = {
+  ...MIDDLEGAME_TABLES,
+  pawn: PAWN_ENDGAME_TABLE,
+  king: KING_ENDGAME_TABLE
+};
+
+const isOnBoard = (row: number, col: number) => row >= 0 && row < 8 && col >= 0 && col < 8;
+
+// evaluate blends its middlegame and endgame scores by this
+export const getGamePhase = (board: ReadonlyBoard): number => {
+  let phase = 0;
+  for (const row of board) {
+    for (const piece of row) {
+      if (piece) {
+        phase += PHASE_WEIGHTS[piece.type];
+      }
+    }
+  }
+  return Math.min(phase, MAX_PHASE);
+};
+
+// Squares a knight or slider on (row, col) can move to, ignoring pins
+const countMobility = (board: ReadonlyBoard, row: number, col: number, type: PieceType, color: Color): number => {
+  let count = 0;
+
+  if (type === 'knight') {
+    for (const [dr, dc] of KNIGHT_OFFSETS) {
+      const r = row + dr;
+      const c = col + dc;
+      if (isOnBoard(r, c) && board[r][c]?.color !== color) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  const rays = type === 'bishop' ? BISHOP_RAYS : type === 'rook' ? ROOK_RAYS : QUEEN_RAYS;
+  for (const [dr, dc] of rays) {
+    let r = row + dr;
+    let c = col + dc;
+    while (isOnBoard(r, c)) {
+      const piece = board[r][c];
+      if (piece) {
+        if (piece.color !== color) count++;
+        break;
+      }
+      count++;
+      r += dr;
+      c += dc;
+    }
+  }
+  return count;
+};
+
+// Static evaluation from `color`'s point of view. Every term is scored for
+// both phases and the two totals are blended by how much material is left
+export const evaluate = (
+  board: ReadonlyBoard,
+  color: Color,
+  weights: EvaluationWeights = DEFAULT_EVALUATION_WEIGHTS
+): number => {
+  // Pawns per file, and the rows of each side's pawns nearest the eighth
+  // and the first rank, for the pawn structure terms
+  const pawnCounts: Record<Color, number[]> = { white: Array(8).fill(0), black: Array(8).fill(0) };
+  const minPawnRow: Record<Color, number[]> = { white: Array(8).fill(8), black: Array(8).fill(8) };
+  const maxPawnRow: Record<Color, number[]> = { white: Array(8).fill(-1), black: Array(8).fill(-1) };
+  const bishops: Record<Color, number> = { white: 0, black: 0 };
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+      if (piece.type === 'pawn') {
+        pawnCounts[piece.color][col]++;
+        minPawnRow[piece.color][col] = Math.min(minPawnRow[piece.color][col], row);
+        maxPawnRow[piece.color][col] = Math.max(maxPawnRow[piece.color][col], row);
+      } else if (piece.type === 'bishop') {
+        bishops[piece.color]++;
+      }
+    }
+  }
+
+  // Middlegame and endgame totals, from white's point of view
+  let mg = 0;
+  let eg = 0;
+  const add = (side: Color, weight: TaperedWeight, count: number) => {
+    const sign = side === 'white' ? 1 : -1;
+    mg += sign * weight.mg * count;
+    eg += sign * weight.eg * count;
+  };
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+      const side = piece.color;
+      const enemy = side === 'white' ? 'black' : 'white';
+      const sign = side === 'white' ? 1 : -1;
+      const tableRow = side === 'white' ? row : 7 - row;
+
+      mg += sign * (PIECE_VALUES[piece.type] + MIDDLEGAME_TABLES[piece.type][tableRow][col]);
+      eg += sign * (PIECE_VALUES[piece.type] + ENDGAME_TABLES[piece.type][tableRow][col]);
+
+      switch (piece.type) {
+        case 'pawn': {
+          // Passed when no enemy pawn is ahead of it on its own or a neighbouring file
+          let isPassed = true;
+          for (let c = Math.max(0, col - 1); c <= Math.min(7, col + 1) && isPassed; c++) {
+            isPassed = side === 'white' ? minPawnRow[enemy][c] >= row : maxPawnRow[enemy][c] <= row;
+          }
+          if (isPassed) {
+            add(side, weights.passedPawn, PASSED_PAWN_STEPS[7 - tableRow]);
+          }
+          const hasNeighbours = (col > 0 && pawnCounts[side][col - 1] > 0) || (col < 7 && pawnCounts[side][col + 1] > 0);
+          if (!hasNeighbours) {
+            add(side, weights.isolatedPawn, 1);
+          }
+          break;
+        }
+        case 'rook':
+          if (pawnCounts[side][col] === 0) {
+            add(side, weights.rookOpenFile, pawnCounts[enemy][col] === 0 ? 1 : 0.5);
+          }
+          add(side, weights.mobility, countMobility(board, row, col, piece.type, side));
+          break;
+        case 'king': {
+          const forward = side === 'white' ? -1 : 1;
+          let shield = 0;
+          for (let step = 1; step <= 2; step++) {
+            for (let c = Math.max(0, col - 1); c <= Math.min(7, col + 1); c++) {
+              const r = row + forward * step;
+              const shieldPiece = isOnBoard(r, c) ? board[r][c] : null;
+              if (shieldPiece?.type === 'pawn' && shieldPiece.color === side) {
+                shield++;
+              }
+            }
+          }
+          add(side, weights.pawnShield, shield);
+          break;
+        }
+        default:
+          add(side, weights.mobility, countMobility(board, row, col, piece.type, side));
+      }
+    }
+  }
+
+  for (const side of ['white', 'black'] as const) {
+    for (let col = 0; col < 8; col++) {
+      if (pawnCounts[side][col] > 1) {
+        add(side, weights.doubledPawn, pawnCounts[side][col] - 1);
+      }
+    }
+    if (bishops[side] >= 2) {
+      add(side, weights.bishopPair, 1);
+    }
+  }
+
+  const mgPhase = getGamePhase(board);
+  const score = Math.round((mg * mgPhase + eg * (MAX_PHASE - mgPhase)) / MAX_PHASE);
+  return color === 'white' ? score : -score;
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { FenError, FenField, INITIAL_FEN, parseFen, toFen } from './fen';
+
+const errorFields = (fen: string): FenField[] => {
+  try {
+    parseFen(fen);
+  } catch (error) {
+    expect(error).toBeInstanceOf(FenError);
+    return (error as FenError).errors.map(({ field }) => field);
+  }
+  throw new Error(`"${fen}" parsed without errors`);
+};
+
+describe('parseFen', () => {
+  it('round-trips through toFen', () => {
+    for (const fen of [
+      INITIAL_FEN,
+      'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+      'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3',
+      '8/8/8/8/8/8/6k1/4K2R b K - 12 57'
+    ]) {
+      expect(toFen(parseFen(fen))).toBe(fen);
+    }
+  });
+
+  it('fills in missing move counters', () => {
+    expect(toFen(parseFen('4k3/8/8/8/8/8/8/4K3 w - -'))).toBe('4k3/8/8/8/8/8/8/4K3 w - - 0 1');
+  });
+
+  it('reports the wrong number of fields', () => {
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w')).toEqual(['field count']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w - - 0 1 extra')).toEqual(['field count']);
+  });
+
+  it('reports a bad piece placement', () => {
+    expect(errorFields('4k3/8/8/8/8/8/4K3 w - - 0 1')).toEqual(['piece placement']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K2X w - - 0 1')).toEqual(['piece placement']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K4 w - - 0 1')).toEqual(['piece placement']);
+    expect(errorFields('P3k3/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual(['piece placement']);
+    expect(errorFields('8/8/8/8/8/8/8/4K3 w - - 0 1')).toEqual(['piece placement']);
+  });
+
+  it('reports each bad field', () => {
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 x - - 0 1')).toEqual(['active color']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w KK - 0 1')).toEqual(['castling availability']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w - z9 0 1')).toEqual(['en passant target']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w - e3 0 1')).toEqual(['en passant target']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w - - -1 1')).toEqual(['halfmove clock']);
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 w - - 0 0')).toEqual(['fullmove number']);
+  });
+
+  it('reports every bad field at once', () => {
+    expect(errorFields('4k3/8/8/8/8/8/8/4K3 x KK - a b')).toEqual([
+      'active color',
+      'castling availability',
+      'halfmove clock',
+      'fullmove number'
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { Board, Color, GameState, PieceType } from './types';
+import { positionToSquare, squareToPosition } from './utils';
+
+export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export type FenField =
+  | 'field count'
+  | 'piece placement'
+  | 'active color'
+  | 'castling availability'
+  | 'en passant target'
+  | 'halfmove clock'
+  | 'fullmove number';
+
+export interface FenFieldError {
+  field: FenField;
+  message: string;
+}
+
+export class FenError extends Error {
+  readonly errors: FenFieldError[];
+
+  constructor(fen: string, errors: FenFieldError[]) {
+    super(`Invalid FEN "${fen}": ${errors.map(e => `${e.field}: ${e.message}`).join('; ')}`);
+    this.name = 'FenError';
+    this.errors = errors;
+  }
+}
+
+// The parts of GameState that a FEN string describes
+export type FenPosition = Pick<
+  GameState,
+  | 'board'
+  | 'currentPlayer'
+  | 'canCastleKingSide'
+  | 'canCastleQueenSide'
+  | 'enPassantTarget'
+  | 'halfmoveClock'
+  | 'fullmoveNumber'
+>;
+
+const pieceLetters: Record<PieceType, string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k'
+};
+
+const letterPieces: Record<string, PieceType> = {
+  p: 'pawn',
+  n: 'knight',
+  b: 'bishop',
+  r: 'rook',
+  q: 'queen',
+  k: 'king'
+};
+
+const parsePlacement = (placement: string, errors: FenFieldError[]): Board => {
+  const board: Board = Array(8).fill(null).map(() => Array(8).fill(null));
+  const fail = (message: string) => {
+    errors.push({ field: 'piece placement', message });
+    return board;
+  };
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    return fail(`expected 8 ranks, got ${ranks.length}`);
+  }
+
+  const kings = { white: 0, black: 0 };
+  for (let row = 0; row < 8; row++) {
+    let col = 0;
+    for (const char of ranks[row]) {
+      if (/[1-8]/.test(char)) {
+        col += Number(char);
+      } else {
+        const type = letterPieces[char.toLowerCase()];
+        if (!type) {
+          return fail(`unknown piece "${char}" on rank ${8 - row}`);
+        }
+        const color: Color = char === char.toUpperCase() ? 'white' : 'black';
+        if (type === 'pawn' && (row === 0 || row === 7)) {
+          return fail(`pawn on rank ${8 - row}`);
+        }
+        if (type === 'king') {
+          kings[color]++;
+        }
+        if (col < 8) {
+          board[row][col] = { type, color };
+        }
+        col++;
+      }
+    }
+    if (col !== 8) {
+      return fail(`rank ${8 - row} describes ${col} squares instead of 8`);
+    }
+  }
+
+  if (kings.white !== 1 || kings.black !== 1) {
+    return fail(`expected one king per side, got ${kings.white} white and ${kings.black} black`);
+  }
+
+  return board;
+};
+
+export const parseFen = (fen: string): FenPosition => {
+  const errors: FenFieldError[] = [];
+  const fields = fen.trim().split(/\s+/);
+
+  // The two move counters are optional so that EPD-style strings also load
+  if (fields.length < 4 || fields.length > 6) {
+    throw new FenError(fen, [{ field: 'field count', message: `expected 4 to 6 fields, got ${fields.length}` }]);
+  }
+
+  const [placement, activeColor, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+  const board = parsePlacement(placement, errors);
+
+  let currentPlayer: Color = 'white';
+  if (activeColor === 'w' || activeColor === 'b') {
+    currentPlayer = activeColor === 'w' ? 'white' : 'black';
+  } else {
+    errors.push({ field: 'active color', message: `expected "w" or "b", got "${activeColor}"` });
+  }
+
+  const canCastleKingSide = { white: false, black: false };
+  const canCastleQueenSide = { white: false, black: false };
+  if (castling !== '-') {
+    if (!/^[KQkq]+$/.test(castling) || new Set(castling).size !== castling.length) {
+      errors.push({ field: 'castling availability', message: `expected "-" or a subset of "KQkq", got "${castling}"` });
+    } else {
+      canCastleKingSide.white = castling.includes('K');
+      canCastleQueenSide.white = castling.includes('Q');
+      canCastleKingSide.black = castling.includes('k');
+      canCastleQueenSide.black = castling.includes('q');
+    }
+  }
+
+  let enPassantTarget = null;
+  if (enPassant !== '-') {
+    enPassantTarget = squareToPosition(enPassant);
+    const expectedRow = currentPlayer === 'white' ? 2 : 5;
+    if (!enPassantTarget) {
+      errors.push({ field: 'en passant target', message: `expected "-" or a square, got "${enPassant}"` });
+    } else if (enPassantTarget.row !== expectedRow) {
+      errors.push({ field: 'en passant target', message: `${enPassant} is not on rank ${8 - expectedRow}` });
+      enPassantTarget = null;
+    }
+  }
+
+  if (!/^\d+$/.test(halfmove)) {
+    errors.push({ field: 'halfmove clock', message: `expected a non-negative integer, got "${halfmove}"` });
+  }
+  if (!/^\d+$/.test(fullmove) || Number(fullmove) < 1) {
+    errors.push({ field: 'fullmove number', message: `expected a positive integer, got "${fullmove}"` });
+  }
+
+  if (errors.length > 0) {
+    throw new FenError(fen, errors);
+  }
+
+  return {
+    board,
+    currentPlayer,
+    canCastleKingSide,
+    canCastleQueenSide,
+    enPassantTarget,
+    halfmoveClock: Number(halfmove),
+    fullmoveNumber: Number(fullmove)
+  };
+};
+
+export const toFen = (position: FenPosition): string => {
+  const ranks = position.board.map(row => {
+    let rank = '';
+    let empty = 0;
+    for (const piece of row) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        rank += empty;
+        empty = 0;
+      }
+      const letter = pieceLetters[piece.type];
+      rank += piece.color === 'white' ? letter.toUpperCase() : letter;
+    }
+    return empty > 0 ? rank + empty : rank;
+  });
+
+  const castling =
+    (position.canCastleKingSide.white ? 'K' : '') +
+    (position.canCastleQueenSide.white ? 'Q' : '') +
+    (position.canCastleKingSide.black ? 'k' : '') +
+    (position.canCastleQueenSide.black ? 'q' : '');
+
+  return [
+    ranks.join('/'),
+    position.currentPlayer === 'white' ? 'w' : 'b',
+    castling || '-',
+    position.enPassantTarget ? positionToSquare(position.enPassantTarget) : '-',
+    position.halfmoveClock,
+    position.fullmoveNumber
+  ].join(' ');
+};
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { BookMove, FallbackBook, OpeningBook, getBuiltInBook, pickBookMove } from './openingBook';
+import { ChessAI } from './ChessAI';
+import { ChessGame } from './ChessGame';
+import { sanToMove } from './san';
+import { moveToUci } from './utils';
+
+const play = (sanMoves: string): ChessGame => {
+  const game = new ChessGame();
+  for (const san of sanMoves.split(' ').filter(Boolean)) {
+    game.applyMove(sanToMove(san, game.getAllLegalMoves(game.getCurrentPlayer()))!);
+  }
+  return game;
+};
+
+describe('built-in opening book', () => {
+  it('offers the first moves of its lines, weighted by how many lines use them', () => {
+    const moves = getBuiltInBook().getMoves(new ChessGame());
+    const weights = Object.fromEntries(moves.map(({ move, weight }) => [moveToUci(move), weight]));
+    expect(Object.keys(weights).sort()).toEqual(['c2c4', 'd2d4', 'e2e4', 'g1f3']);
+    expect(weights.e2e4).toBeGreaterThan(weights.g1f3);
+  });
+
+  it('names the opening, inheriting the name inside a line', () => {
+    const book = getBuiltInBook();
+    expect(book.getOpening(play('e4 e5 Nf3 Nc6 Bb5'))).toEqual({ eco: 'C60', name: 'Ruy Lopez' });
+    expect(book.getOpening(play('e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6'))?.name).toBe('Ruy Lopez: Morphy Defense');
+    expect(book.getOpening(new ChessGame())).toBeNull();
+    expect(book.getOpening(play('e4 e5 Nf3 Nc6 Bb5 Nd4'))).toBeNull();
+  });
+
+  it('finds positions reached by transposition', () => {
+    // The Catalan line starts 1.d4 Nf6 2.c4 e6 3.g3 d5
+    expect(getBuiltInBook().getOpening(play('Nf3 Nf6 c4 e6 g3 d5 d4 Be7 Bg2 O-O O-O'))?.eco).toBe('E00');
+  });
+});
+
+describe('pickBookMove', () => {
+  const [e4, d4] = new ChessGame().getAllLegalMoves('white').filter(move => ['e2e4', 'd2d4'].includes(moveToUci(move)));
+  const moves: BookMove[] = [{ move: e4, weight: 3 }, { move: d4, weight: 1 }];
+
+  it('picks moves in proportion to their weight', () => {
+    expect(pickBookMove(moves, () => 0.7)).toBe(e4);
+    expect(pickBookMove(moves, () => 0.8)).toBe(d4);
+  });
+
+  it('never picks a move with weight 0', () => {
+    expect(pickBookMove([{ move: e4, weight: 0 }], () => 0)).toBeNull();
+  });
+});
+
+describe('FallbackBook', () => {
+  const [e4] = new ChessGame().getAllLegalMoves('white').filter(move => moveToUci(move) === 'e2e4');
+  // Knows only the starting position
+  const startOnly: OpeningBook = {
+    getMoves: game => (game.getGameState().moveHistory.length === 0 ? [{ move: e4, weight: 1 }] : [])
+  };
+
+  it('prefers the primary book and falls back where it has no moves', () => {
+    const book = new FallbackBook(startOnly, getBuiltInBook());
+    expect(book.getMoves(new ChessGame())).toEqual([{ move: e4, weight: 1 }]);
+    const position = play('e4 e5');
+    expect(book.getMoves(position)).toEqual(getBuiltInBook().getMoves(position));
+  });
+
+  it('falls back when the primary book only has moves never to play', () => {
+    const neverPlayed: OpeningBook = { getMoves: () => [{ move: e4, weight: 0 }] };
+    const book = new FallbackBook(neverPlayed, startOnly);
+    expect(book.getMoves(new ChessGame())).toEqual([{ move: e4, weight: 1 }]);
+  });
+});
+
+describe('ChessAI with an opening book', () => {
+  it('plays book moves without searching', () => {
+    const ai = new ChessAI();
+    ai.setOpeningBook(getBuiltInBook());
+    const result = ai.search(play('e4 e5 Nf3 Nc6'), { maxDepth: 4 });
+    expect(result.fromBook).toBe(true);
+    expect(result.iterations).toEqual([]);
+    expect(['f1b5', 'f1c4', 'd2d4', 'b1c3']).toContain(moveToUci(result.bestMove!));
+  });
+});
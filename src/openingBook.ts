@@ -0,0 +1,124 @@
+import { ChessGame } from './ChessGame';
+import { sanToMove } from './san';
+import { Move } from './types';
+import { moveToUci } from './utils';
+import { ZobristKey } from './zobrist';
+import openingLines from './openingBook.json';
+
+export interface Opening {
+  eco: string;
+  name: string;
+}
+
+// A move the book plays in a position; moves are picked in proportion to
+// their weight, and a weight of 0 means the move is never played
+export interface BookMove {
+  move: Move;
+  weight: number;
+}
+
+export interface OpeningBook {
+  getMoves(game: ChessGame): BookMove[];
+}
+
+export const pickBookMove = (moves: BookMove[], random: () => number): Move | null => {
+  const total = moves.reduce((sum, { weight }) => sum + weight, 0);
+  let choice = random() * total;
+  for (const { move, weight } of moves) {
+    if (weight > 0 && (choice -= weight) < 0) {
+      return move;
+    }
+  }
+  return null;
+};
+
+// Plays from `primary`, and from `fallback` in positions where `primary`
+// has no move it would play
+export class FallbackBook implements OpeningBook {
+  constructor(private readonly primary: OpeningBook, private readonly fallback: OpeningBook) {}
+
+  getMoves(game: ChessGame): BookMove[] {
+    const moves = this.primary.getMoves(game);
+    return moves.some(({ weight }) => weight > 0) ? moves : this.fallback.getMoves(game);
+  }
+}
+
+interface OpeningLine extends Opening {
+  // Moves from the starting position in SAN, separated by spaces
+  moves: string;
+}
+
+interface BookPosition {
+  // Weights by move in UCI notation
+  moves: Map<string, number>;
+  opening: Opening | null;
+}
+
+const keyToString = ({ hi, lo }: ZobristKey) => `${hi}:${lo}`;
+
+// A book built from named opening lines. Positions are looked up by
+// Zobrist key, so transpositions into a line are found too. A position
+// without a line of its own is named after the line it was reached by
+export class LineBook implements OpeningBook {
+  private readonly positions = new Map<string, BookPosition>();
+
+  constructor(lines: OpeningLine[]) {
+    // Shorter lines first, so longer ones inherit their names
+    const sortedLines = [...lines].sort((a, b) => a.moves.split(' ').length - b.moves.split(' ').length);
+
+    for (const { eco, name, moves } of sortedLines) {
+      const game = new ChessGame();
+      let opening: Opening | null = null;
+
+      for (const san of moves.split(' ')) {
+        const position = this.getOrAddPosition(game);
+        opening = position.opening ?? opening;
+        position.opening = opening;
+
+        const move = sanToMove(san, game.getAllLegalMoves(game.getCurrentPlayer()));
+        if (!move) {
+          throw new Error(`Illegal move ${san} in the ${name} book line`);
+        }
+        const uci = moveToUci(move);
+        position.moves.set(uci, (position.moves.get(uci) ?? 0) + 1);
+        game.applyMove(move);
+      }
+
+      this.getOrAddPosition(game).opening = { eco, name };
+    }
+  }
+
+  getMoves(game: ChessGame): BookMove[] {
+    const position = this.positions.get(keyToString(game.getZobristKey()));
+    if (!position) return [];
+
+    const legalMoves = game.getAllLegalMoves(game.getCurrentPlayer());
+    return legalMoves.flatMap(move => {
+      const weight = position.moves.get(moveToUci(move));
+      return weight ? [{ move, weight }] : [];
+    });
+  }
+
+  // The opening the current position belongs to, or null once the game
+  // has left the book
+  getOpening(game: ChessGame): Opening | null {
+    return this.positions.get(keyToString(game.getZobristKey()))?.opening ?? null;
+  }
+
+  private getOrAddPosition(game: ChessGame): BookPosition {
+    const key = keyToString(game.getZobristKey());
+    let position = this.positions.get(key);
+    if (!position) {
+      position = { moves: new Map(), opening: null };
+      this.positions.set(key, position);
+    }
+    return position;
+  }
+}
+
+let builtInBook: LineBook | null = null;
+
+// The book that ships with the app, built on first use
+export const getBuiltInBook = (): LineBook => {
+  return (builtInBook ??= new LineBook(openingLines));
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+
+// Reference node counts from the Chess Programming Wiki "Perft Results" page
+const positions: { name: string; fen: string; counts: number[] }[] = [
+  {
+    name: 'start position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    counts: [20, 400, 8902, 197281]
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    counts: [48, 2039, 97862]
+  },
+  {
+    name: 'position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    counts: [14, 191, 2812, 43238, 674624]
+  },
+  {
+    name: 'position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    counts: [6, 264, 9467, 422333]
+  },
+  {
+    name: 'position 4 mirrored',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    counts: [6, 264, 9467]
+  },
+  {
+    name: 'position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    counts: [44, 1486, 62379]
+  },
+  {
+    name: 'position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    counts: [46, 2079, 89890]
+  }
+];
+
+describe('perft', () => {
+  for (const { name, fen, counts } of positions) {
+    it(`matches the reference counts for the ${name}`, () => {
+      const game = new ChessGame(fen);
+      counts.forEach((count, index) => {
+        expect(game.perft(index + 1)).toBe(count);
+      });
+      expect(game.toFen()).toBe(fen);
+    }, 60_000);
+  }
+
+  it('splits the count by root move', () => {
+    const divide = new ChessGame().divide(2);
+    expect(Object.keys(divide)).toHaveLength(20);
+    expect(divide.e2e4).toBe(20);
+    expect(divide.g1f3).toBe(20);
+  });
+
+  it('names promotions with their piece', () => {
+    const divide = new ChessGame('4k3/P7/8/8/8/8/8/4K3 w - - 0 1').divide(1);
+    expect(Object.keys(divide)).toEqual(expect.arrayContaining(['a7a8q', 'a7a8r', 'a7a8b', 'a7a8n']));
+  });
+
+  it('keeps moves available for redo', () => {
+    const game = new ChessGame();
+    game.makeMove({ row: 6, col: 4 }, { row: 4, col: 4 });
+    game.undoMove();
+    game.perft(2);
+    expect(game.canRedo()).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { PgnError, exportPgn, importPgn } from './pgn';
+
+const playSan = (moves: string[], fen?: string) => {
+  const game = new ChessGame(fen);
+  for (const san of moves) {
+    game.applyMove(game.moveFromSan(san)!);
+  }
+  return game;
+};
+
+const sanHistory = (game: ChessGame) => game.getGameState().moveHistory.map(move => move.san);
+
+const importError = (pgn: string): PgnError => {
+  try {
+    importPgn(pgn);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PgnError);
+    return error as PgnError;
+  }
+  throw new Error('PGN imported without errors');
+};
+
+describe('exportPgn', () => {
+  it('writes the seven tag roster in order, then the movetext and result', () => {
+    const game = playSan(['f3', 'e5', 'g4', 'Qh4#']);
+    const pgn = exportPgn(game, { White: 'Alice', Black: 'Bob', WhiteElo: '1500' });
+    const lines = pgn.split('\n');
+
+    expect(lines.slice(0, 8)).toEqual([
+      '[Event "Casual Game"]',
+      '[Site "Chess Master"]',
+      expect.stringMatching(/^\[Date "\d{4}\.\d{2}\.\d{2}"\]$/),
+      '[Round "-"]',
+      '[White "Alice"]',
+      '[Black "Bob"]',
+      '[Result "0-1"]',
+      '[WhiteElo "1500"]'
+    ]);
+    expect(pgn.endsWith('\n\n1. f3 e5 2. g4 Qh4# 0-1\n')).toBe(true);
+  });
+
+  it('records a custom starting position and numbers a black first move', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 12';
+    const pgn = exportPgn(playSan(['Kd7', 'e4'], fen));
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+    expect(pgn).toContain('12... Kd7 13. e4 *');
+  });
+
+  it('escapes quotes and backslashes in tag values', () => {
+    expect(exportPgn(new ChessGame(), { Event: 'The "Big" \\ Game' })).toContain('[Event "The \\"Big\\" \\\\ Game"]');
+  });
+
+  it('keeps movetext lines under 80 characters', () => {
+    const moves = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+    const game = playSan(Array.from({ length: 16 }, (_, index) => moves[index % 4]));
+    const movetext = exportPgn(game).split('\n\n')[1].trimEnd().split('\n');
+    expect(movetext.length).toBeGreaterThan(1);
+    expect(movetext.every(line => line.length < 80)).toBe(true);
+  });
+});
+
+describe('importPgn', () => {
+  it('round-trips exported games', () => {
+    const game = playSan(['e4', 'd5', 'exd5', 'Qxd5', 'Nc3', 'Qa5', 'd4', 'c6', 'Nf3', 'Bg4']);
+    const { game: imported, tags } = importPgn(exportPgn(game, { White: 'Alice' }));
+    expect(sanHistory(imported)).toEqual(sanHistory(game));
+    expect(imported.toFen()).toBe(game.toFen());
+    expect(tags).toMatchObject({ White: 'Alice', Result: '*' });
+
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 b - - 0 12';
+    const fromFen = importPgn(exportPgn(playSan(['Kd7', 'e4'], fen))).game;
+    expect(fromFen.getStartingFen()).toBe(fen);
+    expect(sanHistory(fromFen)).toEqual(['Kd7', 'e4']);
+  });
+
+  it('skips comments, variations and annotation glyphs', () => {
+    const { game, tags } = importPgn('1. e4 {best by test} e5 (1... c5 2. Nf3 (2. c3)) 2. Nf3 $1 ; a comment\nNc6 1-0');
+    expect(sanHistory(game)).toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+    expect(tags.Result).toBe('1-0');
+  });
+
+  it('reports the ply of an illegal move', () => {
+    const error = importError('1. e4 e5 2. Ke3');
+    expect(error.ply).toBe(3);
+    expect(error.message).toMatch(/^Ply 3: /);
+  });
+
+  it('reports moves played after the game ended', () => {
+    expect(importError('1. f3 e5 2. g4 Qh4# 3. a3').ply).toBe(5);
+  });
+
+  it('reports errors outside the movetext without a ply', () => {
+    expect(importError('1. e4 (1. d4').ply).toBeNull();
+    expect(importError('[FEN "not a fen"]\n\n1. e4').ply).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { ChessGame } from './ChessGame';
+import { INITIAL_FEN } from './fen';
+import { GameState } from './types';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type PgnTags = Record<string, string>;
+
+// The tags every PGN game must carry, in their required order
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'] as const;
+
+export class PgnError extends Error {
+  // 1-based half-move where replay failed, or null for errors outside the movetext
+  readonly ply: number | null;
+
+  constructor(message: string, ply: number | null = null) {
+    super(ply === null ? message : `Ply ${ply}: ${message}`);
+    this.name = 'PgnError';
+    this.ply = ply;
+  }
+}
+
+export interface PgnGame {
+  game: ChessGame;
+  tags: PgnTags;
+}
+
+export const getResult = (state: GameState): PgnResult => {
+  // After checkmate or a loss on time the side to move has lost
+  if (state.isCheckmate || state.gameOverReason === 'timeout') {
+    return state.currentPlayer === 'white' ? '0-1' : '1-0';
+  }
+  if (state.gameOverReason) {
+    return '1/2-1/2';
+  }
+  return '*';
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+const escapeTagValue = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// PGN export format keeps movetext lines under 80 characters
+const wrapMovetext = (tokens: string[]): string => {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 79) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+export const exportPgn = (game: ChessGame, tags: PgnTags = {}): string => {
+  const state = game.getGameState();
+  // Keep a recorded result (resignation, agreed draw) unless the board decides it
+  const result = getResult(state) !== '*' ? getResult(state) : (tags.Result as PgnResult | undefined) ?? '*';
+  const startingFen = game.getStartingFen();
+
+  const roster: PgnTags = {
+    Event: 'Casual Game',
+    Site: 'Chess Master',
+    Date: formatDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...tags,
+    Result: result
+  };
+  const extraTags: PgnTags = Object.fromEntries(
+    Object.entries(tags).filter(([name]) => !(SEVEN_TAG_ROSTER as readonly string[]).includes(name))
+  );
+  if (startingFen !== INITIAL_FEN) {
+    extraTags.SetUp = '1';
+    extraTags.FEN = startingFen;
+  }
+
+  const header = [
+    ...SEVEN_TAG_ROSTER.map(name => [name, roster[name]]),
+    ...Object.entries(extraTags)
+  ].map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`);
+
+  const startingState = new ChessGame(startingFen).getGameState();
+  let moveNumber = startingState.fullmoveNumber;
+  let color = startingState.currentPlayer;
+  const tokens: string[] = [];
+
+  state.moveHistory.forEach((move, index) => {
+    if (color === 'white') {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(move.san!);
+    if (color === 'black') {
+      moveNumber++;
+    }
+    color = color === 'white' ? 'black' : 'white';
+  });
+  tokens.push(result);
+
+  return `${header.join('\n')}\n\n${wrapMovetext(tokens)}\n`;
+};
+
+const parseTags = (pgn: string): { tags: PgnTags; movetext: string } => {
+  const tags: PgnTags = {};
+  const tagPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+  const movetextLines: string[] = [];
+
+  for (const line of pgn.split(/\r?\n/)) {
+    const match = tagPattern.exec(line);
+    if (match) {
+      tags[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+    } else if (!line.startsWith('%')) {
+      movetextLines.push(line);
+    }
+  }
+
+  return { tags, movetext: movetextLines.join('\n') };
+};
+
+const resultPattern = /^(1-0|0-1|1\/2-1\/2|\*)$/;
+
+// Drops comments, variations, NAGs and move numbers
+const tokenizeMovetext = (movetext: string): string[] => {
+  let text = movetext.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' ');
+
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(/\([^()]*\)/g, ' ');
+  } while (text !== previous);
+
+  if (/[()]/.test(text)) {
+    throw new PgnError('unbalanced parentheses in movetext');
+  }
+
+  return text
+    .replace(/\d+\.(\.\.)?/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !/^\$\d+$/.test(token));
+};
+
+export const importPgn = (pgn: string): PgnGame => {
+  const { tags, movetext } = parseTags(pgn);
+
+  let game: ChessGame;
+  try {
+    game = new ChessGame(tags.FEN);
+  } catch (error) {
+    throw new PgnError(`invalid FEN tag: ${(error as Error).message}`);
+  }
+
+  const tokens = tokenizeMovetext(movetext);
+  if (tokens.length > 0 && resultPattern.test(tokens[tokens.length - 1])) {
+    const resultToken = tokens.pop()!;
+    tags.Result = tags.Result ?? resultToken;
+  }
+
+  tokens.forEach((san, index) => {
+    const ply = index + 1;
+    const state = game.getGameState();
+    // Recorded games may play on past draws that a player could have claimed
+    if (state.isCheckmate || state.isStalemate) {
+      throw new PgnError(`"${san}" played after the game ended`, ply);
+    }
+
+    const move = game.moveFromSan(san);
+    if (!move || !game.makeMove(move.from, move.to, move.promoteTo)) {
+      throw new PgnError(`illegal or ambiguous move "${san}" for ${state.currentPlayer}`, ply);
+    }
+  });
+
+  return { game, tags };
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { PolyglotBook, getPolyglotKey } from './polyglot';
+import { ChessGame } from './ChessGame';
+import { moveToUci } from './utils';
+
+const playUci = (moves: string[]): ChessGame => {
+  const game = new ChessGame();
+  for (const uci of moves) {
+    game.applyMove(game.getAllLegalMoves(game.getCurrentPlayer()).find(move => moveToUci(move) === uci)!);
+  }
+  return game;
+};
+
+const encodeMove = (from: string, to: string): number => {
+  const file = (square: string) => square.charCodeAt(0) - 97;
+  const rank = (square: string) => Number(square[1]) - 1;
+  return file(to) | (rank(to) << 3) | (file(from) << 6) | (rank(from) << 9);
+};
+
+const writeBook = (entries: { key: bigint; move: number; weight: number }[]): ArrayBuffer => {
+  const sorted = [...entries].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  const view = new DataView(new ArrayBuffer(sorted.length * 16));
+  sorted.forEach(({ key, move, weight }, index) => {
+    view.setBigUint64(index * 16, key);
+    view.setUint16(index * 16 + 8, move);
+    view.setUint16(index * 16 + 10, weight);
+  });
+  return view.buffer;
+};
+
+describe('PolyglotBook', () => {
+  const start = new ChessGame();
+  const castling = new ChessGame('r3k2r/pppqbppp/2np1n2/4p3/4P3/2NP1N2/PPPQBPPP/R3K2R w KQkq - 0 1');
+  const book = new PolyglotBook(
+    writeBook([
+      { key: getPolyglotKey(start), move: encodeMove('e2', 'e4'), weight: 3 },
+      { key: getPolyglotKey(start), move: encodeMove('d2', 'd4'), weight: 1 },
+      { key: getPolyglotKey(castling), move: encodeMove('e1', 'h1'), weight: 1 },
+      { key: getPolyglotKey(castling), move: encodeMove('e1', 'a1'), weight: 1 },
+      { key: 1n, move: encodeMove('g1', 'f3'), weight: 1 }
+    ])
+  );
+
+  it('finds every entry for the position', () => {
+    const moves = book.getMoves(start).map(({ move, weight }) => `${moveToUci(move)}:${weight}`);
+    expect(moves.sort()).toEqual(['d2d4:1', 'e2e4:3']);
+  });
+
+  it('reads castling written as the king taking its rook', () => {
+    expect(book.getMoves(castling).map(({ move }) => moveToUci(move)).sort()).toEqual(['e1c1', 'e1g1']);
+  });
+
+  it('has no moves for positions out of the book', () => {
+    const game = new ChessGame();
+    game.applyMove(game.getAllLegalMoves('white').find(move => moveToUci(move) === 'a2a3')!);
+    expect(book.getMoves(game)).toEqual([]);
+  });
+
+  it('rejects data that is not a book', () => {
+    expect(() => new PolyglotBook(new ArrayBuffer(15))).toThrow();
+  });
+});
+
+describe('getPolyglotKey', () => {
+  // The example keys published with the Polyglot book format
+  it('matches the published keys', () => {
+    const key = (moves: string) => getPolyglotKey(playUci(moves ? moves.split(' ') : []));
+    expect(key('')).toBe(0x463b96181691fc9cn);
+    expect(key('e2e4')).toBe(0x823c9b50fd114196n);
+    expect(key('e2e4 d7d5')).toBe(0x0756b94461c50fb0n);
+    expect(key('e2e4 d7d5 e4e5')).toBe(0x662fafb965db29d4n);
+    expect(key('e2e4 d7d5 e4e5 f7f5')).toBe(0x22a48b5a8e47ff78n);
+    expect(key('e2e4 d7d5 e4e5 f7f5 e1e2')).toBe(0x652a607ca3f242c1n);
+    expect(key('e2e4 d7d5 e4e5 f7f5 e1e2 e8f7')).toBe(0x00fdd303c946bdd9n);
+    expect(key('a2a4 b7b5 h2h4 b5b4 c2c4')).toBe(0x3c8123ea7b067637n);
+    expect(key('a2a4 b7b5 h2h4 b5b4 c2c4 b4c3 a1a3')).toBe(0x5c3f9b829b279560n);
+  });
+
+  it('only counts the en passant file when a pawn stands next to the pawn that moved', () => {
+    const key = (fen: string) => getPolyglotKey(new ChessGame(fen));
+    expect(key('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1'))
+      .toBe(key('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'));
+    expect(key('rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1'))
+      .not.toBe(key('rnbqkbnr/ppp1pppp/8/8/3pP3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'));
+  });
+});
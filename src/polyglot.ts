@@ -0,0 +1,117 @@
+import { ChessGame } from './ChessGame';
+import { BookMove, OpeningBook } from './openingBook';
+import { PieceType } from './types';
+import { moveToUci, positionToSquare } from './utils';
+import { POLYGLOT_RANDOMS } from './polyglotRandoms';
+
+const PIECE_ORDER: PieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+const CASTLING_OFFSET = 768;
+const EN_PASSANT_OFFSET = 772;
+const TURN_OFFSET = 780;
+
+const ENTRY_SIZE = 16;
+const PROMOTION_PIECES: (PieceType | undefined)[] = [undefined, 'knight', 'bishop', 'rook', 'queen'];
+
+// Polyglot keys XOR together entries of the standard Random64 table
+export const getPolyglotKey = (game: ChessGame): bigint => {
+  const { board, currentPlayer, canCastleKingSide, canCastleQueenSide, enPassantTarget } = game.getGameState();
+  let key = 0n;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece) {
+        // Black pieces come first, and squares count from a1
+        const kind = PIECE_ORDER.indexOf(piece.type) * 2 + (piece.color === 'white' ? 1 : 0);
+        key ^= POLYGLOT_RANDOMS[64 * kind + 8 * (7 - row) + col];
+      }
+    }
+  }
+
+  if (canCastleKingSide.white) key ^= POLYGLOT_RANDOMS[CASTLING_OFFSET];
+  if (canCastleQueenSide.white) key ^= POLYGLOT_RANDOMS[CASTLING_OFFSET + 1];
+  if (canCastleKingSide.black) key ^= POLYGLOT_RANDOMS[CASTLING_OFFSET + 2];
+  if (canCastleQueenSide.black) key ^= POLYGLOT_RANDOMS[CASTLING_OFFSET + 3];
+
+  // Unlike the game's own key, the en passant file counts whenever a pawn
+  // stands next to the pawn that just moved, even if capturing is illegal
+  if (enPassantTarget) {
+    const pawnRow = currentPlayer === 'white' ? enPassantTarget.row + 1 : enPassantTarget.row - 1;
+    const canCapture = [enPassantTarget.col - 1, enPassantTarget.col + 1].some(col => {
+      const piece = col >= 0 && col < 8 ? board[pawnRow][col] : null;
+      return piece?.type === 'pawn' && piece.color === currentPlayer;
+    });
+    if (canCapture) {
+      key ^= POLYGLOT_RANDOMS[EN_PASSANT_OFFSET + enPassantTarget.col];
+    }
+  }
+
+  if (currentPlayer === 'white') {
+    key ^= POLYGLOT_RANDOMS[TURN_OFFSET];
+  }
+  return key;
+};
+
+// Castling is written as the king taking its own rook
+const CASTLING_MOVES: Record<string, string> = { e1h1: 'e1g1', e1a1: 'e1c1', e8h8: 'e8g8', e8a8: 'e8c8' };
+
+// Moves are packed as to file, to rank, from file and from rank (3 bits
+// each, counting from a1) and the promotion piece
+const decodeMove = (packed: number): string => {
+  const square = (file: number, rank: number) => positionToSquare({ row: 7 - rank, col: file });
+  const promoteTo = PROMOTION_PIECES[(packed >> 12) & 7];
+  const promotion = promoteTo ? (promoteTo === 'knight' ? 'n' : promoteTo[0]) : '';
+  return square((packed >> 6) & 7, (packed >> 9) & 7) + square(packed & 7, (packed >> 3) & 7) + promotion;
+};
+
+// A Polyglot .bin book: 16-byte big-endian entries of key, move, weight and
+// a learning field, sorted by key
+export class PolyglotBook implements OpeningBook {
+  private readonly view: DataView;
+  private readonly entryCount: number;
+
+  constructor(data: ArrayBuffer) {
+    if (data.byteLength % ENTRY_SIZE !== 0) {
+      throw new Error('Not a Polyglot book: the size is not a whole number of entries');
+    }
+    this.view = new DataView(data);
+    this.entryCount = data.byteLength / ENTRY_SIZE;
+  }
+
+  getMoves(game: ChessGame): BookMove[] {
+    const key = getPolyglotKey(game);
+    const legalMoves = game.getAllLegalMoves(game.getCurrentPlayer());
+    const moves: BookMove[] = [];
+
+    for (let index = this.findFirstEntry(key); index < this.entryCount && this.getKey(index) === key; index++) {
+      const offset = index * ENTRY_SIZE;
+      const uci = decodeMove(this.view.getUint16(offset + 8));
+      const move = legalMoves.find(legalMove => {
+        return moveToUci(legalMove) === (legalMove.piece.type === 'king' ? CASTLING_MOVES[uci] ?? uci : uci);
+      });
+      if (move) {
+        moves.push({ move, weight: this.view.getUint16(offset + 10) });
+      }
+    }
+    return moves;
+  }
+
+  private getKey(index: number): bigint {
+    return this.view.getBigUint64(index * ENTRY_SIZE);
+  }
+
+  // Binary search for the first entry with this key
+  private findFirstEntry(key: bigint): number {
+    let low = 0;
+    let high = this.entryCount;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.getKey(middle) < key) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
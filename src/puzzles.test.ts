@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { INITIAL_PUZZLE_RATING, PUZZLES, Puzzle, getSolution, isSolutionMove, pickPuzzle, updatePuzzleRating } from './puzzles';
+
+const puzzle = (id: string, rating: number): Puzzle => ({ id, fen: '', moves: '', rating, themes: [] });
+
+describe('bundled puzzles', () => {
+  it('have legal solutions, and mates end in checkmate', () => {
+    for (const puzzle of PUZZLES) {
+      const game = new ChessGame(puzzle.fen);
+      getSolution(puzzle).forEach(move => game.applyMove(move));
+      if (puzzle.themes.some(theme => theme.startsWith('mate-in'))) {
+        expect(game.getGameState().isCheckmate, puzzle.id).toBe(true);
+      }
+    }
+  });
+
+  it('have unique ids', () => {
+    expect(new Set(PUZZLES.map(({ id }) => id)).size).toBe(PUZZLES.length);
+  });
+});
+
+describe('isSolutionMove', () => {
+  it('accepts the solution or another mate', () => {
+    const game = new ChessGame('6k1/5ppp/8/8/8/8/8/R3R1K1 w - - 0 1');
+    const expected = game.moveFromSan('Re8#')!;
+    expect(isSolutionMove(game, expected, game.moveFromSan('Re8#')!)).toBe(true);
+    expect(isSolutionMove(game, expected, game.moveFromSan('Ra8#')!)).toBe(true);
+    expect(isSolutionMove(game, expected, game.moveFromSan('Re7')!)).toBe(false);
+  });
+});
+
+describe('updatePuzzleRating', () => {
+  it('moves the rating by the result and gains certainty', () => {
+    const solved = updatePuzzleRating(INITIAL_PUZZLE_RATING, 1000, true);
+    const failed = updatePuzzleRating(INITIAL_PUZZLE_RATING, 1000, false);
+    expect(solved.rating).toBeGreaterThan(1000);
+    expect(failed.rating).toBeLessThan(1000);
+    expect(solved.rating - 1000).toBeCloseTo(1000 - failed.rating);
+    expect(solved.deviation).toBeLessThan(INITIAL_PUZZLE_RATING.deviation);
+  });
+
+  it('rewards solving harder puzzles more', () => {
+    const easy = updatePuzzleRating(INITIAL_PUZZLE_RATING, 700, true);
+    const hard = updatePuzzleRating(INITIAL_PUZZLE_RATING, 1300, true);
+    expect(hard.rating).toBeGreaterThan(easy.rating);
+  });
+});
+
+describe('pickPuzzle', () => {
+  const puzzles = [puzzle('a', 800), puzzle('b', 1000), puzzle('c', 1200)];
+
+  it('picks the untried puzzle closest to the rating', () => {
+    expect(pickPuzzle(puzzles, 1050, {}).id).toBe('b');
+    expect(pickPuzzle(puzzles, 1050, { b: 'solved' }).id).toBe('c');
+  });
+
+  it('repeats puzzles once all have been tried, but not the current one', () => {
+    expect(pickPuzzle(puzzles, 1050, { a: 'solved', b: 'failed', c: 'solved' }, 'b').id).toBe('c');
+  });
+});
@@ -0,0 +1,87 @@
+import { ChessGame } from './ChessGame';
+import { Move } from './types';
+import { movesEqual } from './utils';
+import puzzleSet from './puzzles.json';
+
+export interface Puzzle {
+  id: string;
+  // The starting position, with the solver to move
+  fen: string;
+  // The solution in SAN separated by spaces: the solver's moves and the
+  // opponent's replies in turn
+  moves: string;
+  rating: number;
+  themes: string[];
+}
+
+export type PuzzleResult = 'solved' | 'failed';
+
+export interface PuzzleRating {
+  rating: number;
+  deviation: number;
+}
+
+export const PUZZLES: Puzzle[] = puzzleSet;
+
+// New solvers start near the easier puzzles, with a wide deviation so the
+// first few results move the rating quickly
+export const INITIAL_PUZZLE_RATING: PuzzleRating = { rating: 1000, deviation: 350 };
+
+// Puzzle ratings are taken as settled, give or take this much
+const PUZZLE_DEVIATION = 75;
+// The deviation stops shrinking here so the rating keeps following the solver
+const MIN_DEVIATION = 60;
+const Q = Math.log(10) / 400;
+
+const getImpact = (deviation: number) => 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+// A Glicko rating period with a single result: the puzzle counts as an
+// opponent that the solver beats by solving it
+export const updatePuzzleRating = ({ rating, deviation }: PuzzleRating, puzzleRating: number, solved: boolean): PuzzleRating => {
+  const impact = getImpact(PUZZLE_DEVIATION);
+  const expected = 1 / (1 + 10 ** ((-impact * (rating - puzzleRating)) / 400));
+  const precision = 1 / (deviation * deviation) + Q * Q * impact * impact * expected * (1 - expected);
+  return {
+    rating: rating + (Q / precision) * impact * ((solved ? 1 : 0) - expected),
+    deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision))
+  };
+};
+
+export const getSolution = (puzzle: Puzzle): Move[] => {
+  const game = new ChessGame(puzzle.fen);
+  return puzzle.moves.split(' ').map(san => {
+    const move = game.moveFromSan(san);
+    if (!move) {
+      throw new Error(`Puzzle ${puzzle.id} has an illegal move: ${san}`);
+    }
+    game.applyMove(move);
+    return move;
+  });
+};
+
+// Any move that mates counts, since a mate is as good as the one the
+// puzzle had in mind
+export const isSolutionMove = (game: ChessGame, expected: Move, move: Move): boolean => {
+  if (movesEqual(expected, move)) {
+    return true;
+  }
+  const copy = game.clone();
+  copy.applyMove(move);
+  return copy.getGameState().isCheckmate;
+};
+
+// The untried puzzle rated closest to the solver, or the closest of all
+// the others once every puzzle has been tried
+export const pickPuzzle = (
+  puzzles: Puzzle[],
+  rating: number,
+  results: Record<string, PuzzleResult>,
+  currentId?: string
+): Puzzle => {
+  const others = puzzles.filter(puzzle => puzzle.id !== currentId);
+  const untried = others.filter(puzzle => !results[puzzle.id]);
+  const candidates = untried.length > 0 ? untried : others.length > 0 ? others : puzzles;
+  return candidates.reduce((closest, puzzle) =>
+    Math.abs(puzzle.rating - rating) < Math.abs(closest.rating - rating) ? puzzle : closest
+  );
+};
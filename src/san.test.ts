@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { sanToMove } from './san';
+import { moveToUci } from './utils';
+
+// SAN of every legal move in the position, as the game records it
+const sanMoves = (fen: string): string[] => {
+  const game = new ChessGame(fen);
+  return game.getAllLegalMoves(game.getCurrentPlayer()).map(move => game.getSanLine([move])[0]);
+};
+
+const parse = (fen: string, san: string): string | null => {
+  const game = new ChessGame(fen);
+  const move = sanToMove(san, game.getAllLegalMoves(game.getCurrentPlayer()));
+  return move && moveToUci(move);
+};
+
+describe('moveToSan', () => {
+  it('disambiguates by file when the file tells the pieces apart', () => {
+    expect(sanMoves('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1')).toEqual(expect.arrayContaining(['Nbd2', 'Nfd2', 'Nc3', 'Nh2']));
+  });
+
+  it('disambiguates by rank when the pieces share a file', () => {
+    expect(sanMoves('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1')).toEqual(expect.arrayContaining(['R1a3', 'R5a3', 'R1a2', 'Ra6']));
+  });
+
+  it('uses the full square when neither file nor rank is enough', () => {
+    expect(sanMoves('8/2k5/8/8/7Q/8/8/K3Q2Q w - - 0 1')).toEqual(expect.arrayContaining(['Qh1e4', 'Q4e4', 'Qee4']));
+  });
+
+  it('marks checks and mates', () => {
+    expect(sanMoves('4k3/8/8/8/8/8/8/R3K3 w - - 0 1')).toContain('Ra8+');
+    expect(sanMoves('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1')).toContain('Ra8#');
+  });
+
+  it('writes castling, captures and promotions', () => {
+    expect(sanMoves('r3k3/1P6/8/8/8/8/8/4K2R w K - 0 1')).toEqual(
+      expect.arrayContaining(['O-O', 'b8=Q+', 'b8=N', 'bxa8=Q+', 'bxa8=R+'])
+    );
+  });
+});
+
+describe('sanToMove', () => {
+  it('finds disambiguated moves and rejects ambiguous ones', () => {
+    expect(parse('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'Nbd2')).toBe('b1d2');
+    expect(parse('4k3/8/8/8/8/8/8/1N2KN2 w - - 0 1', 'Nd2')).toBeNull();
+    expect(parse('4k3/8/8/R7/8/8/8/R3K3 w - - 0 1', 'R5a3')).toBe('a5a3');
+    expect(parse('8/2k5/8/8/7Q/8/8/K3Q2Q w - - 0 1', 'Qh1e4')).toBe('h1e4');
+  });
+
+  it('ignores check and annotation suffixes and accepts zeros for castling', () => {
+    expect(parse('6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1', 'Ra8#!')).toBe('a1a8');
+    expect(parse('4k3/8/8/8/8/8/8/4K2R w K - 0 1', '0-0')).toBe('e1g1');
+  });
+
+  it('promotes to a queen unless told otherwise', () => {
+    expect(parse('4k3/1P6/8/8/8/8/8/4K3 w - - 0 1', 'b8')).toBe('b7b8q');
+    expect(parse('4k3/1P6/8/8/8/8/8/4K3 w - - 0 1', 'b8=N')).toBe('b7b8n');
+  });
+});
@@ -0,0 +1,118 @@
+import { Move, PieceType, Position } from './types';
+import { positionToSquare, squareToPosition } from './utils';
+
+const pieceLetters: Record<PieceType, string> = {
+  pawn: '',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K'
+};
+
+const letterPieces: Record<string, PieceType> = {
+  N: 'knight',
+  B: 'bishop',
+  R: 'rook',
+  Q: 'queen',
+  K: 'king'
+};
+
+const isPromotion = (move: Move): boolean => {
+  return move.piece.type === 'pawn' && (move.to.row === 0 || move.to.row === 7);
+};
+
+// Pawns reaching the last rank promote to a queen unless told otherwise
+const getPromotionPiece = (move: Move): PieceType | undefined => {
+  return isPromotion(move) ? move.promoteTo ?? 'queen' : undefined;
+};
+
+// `rivals` are the squares of other pieces of the same type and color that
+// could also legally move to the destination square
+const getDisambiguation = (from: Position, rivals: Position[]): string => {
+  if (rivals.length === 0) {
+    return '';
+  }
+  const square = positionToSquare(from);
+  if (!rivals.some(pos => pos.col === from.col)) {
+    return square[0];
+  }
+  if (!rivals.some(pos => pos.row === from.row)) {
+    return square[1];
+  }
+  return square;
+};
+
+export const moveToSan = (
+  move: Move,
+  rivals: Position[],
+  status: { isCheck: boolean; isCheckmate: boolean }
+): string => {
+  const { from, to, piece } = move;
+  const suffix = status.isCheckmate ? '#' : status.isCheck ? '+' : '';
+
+  if (piece.type === 'king' && Math.abs(to.col - from.col) === 2) {
+    return (to.col > from.col ? 'O-O' : 'O-O-O') + suffix;
+  }
+
+  const isCapture = !!move.capturedPiece || !!move.isEnPassant;
+  let san = '';
+
+  if (piece.type === 'pawn') {
+    if (isCapture) {
+      san += positionToSquare(from)[0];
+    }
+  } else {
+    san += pieceLetters[piece.type] + getDisambiguation(from, rivals);
+  }
+
+  if (isCapture) {
+    san += 'x';
+  }
+  san += positionToSquare(to);
+
+  const promoteTo = getPromotionPiece(move);
+  if (promoteTo) {
+    san += '=' + pieceLetters[promoteTo];
+  }
+
+  return san + suffix;
+};
+
+// Finds the legal move a SAN token describes, or null if none or several match
+export const sanToMove = (san: string, legalMoves: Move[]): Move | null => {
+  const token = san.replace(/[+#!?]+$/, '');
+
+  if (/^(O-O|0-0)$/.test(token) || /^(O-O-O|0-0-0)$/.test(token)) {
+    const isKingSide = token.length === 3;
+    return legalMoves.find(move =>
+      move.piece.type === 'king' && move.to.col - move.from.col === (isKingSide ? 2 : -2)
+    ) ?? null;
+  }
+
+  const match = /^([NBRQK])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([NBRQ]))?$/.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const [, pieceLetter, fromFile, fromRank, toSquare, promotionLetter] = match;
+  const type: PieceType = pieceLetter ? letterPieces[pieceLetter] : 'pawn';
+  const to = squareToPosition(toSquare)!;
+  const promoteTo = promotionLetter ? letterPieces[promotionLetter] : undefined;
+
+  const candidates = legalMoves.filter(move => {
+    if (move.piece.type !== type || move.to.row !== to.row || move.to.col !== to.col) {
+      return false;
+    }
+    const fromSquare = positionToSquare(move.from);
+    if ((fromFile && fromSquare[0] !== fromFile) || (fromRank && fromSquare[1] !== fromRank)) {
+      return false;
+    }
+    if (!isPromotion(move)) {
+      return !promoteTo;
+    }
+    return getPromotionPiece(move) === (promoteTo ?? 'queen');
+  });
+
+  return candidates.length === 1 ? candidates[0] : null;
+};
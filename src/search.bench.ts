@@ -0,0 +1,49 @@
+import { bench, describe } from 'vitest';
+import { ChessAI } from './ChessAI';
+import { ChessGame } from './ChessGame';
+
+// Run with `npm run bench`. Compares walking the move tree by copying the
+// game at every node, as the search used to, with making and unmaking
+// moves on a single game, then times the search itself at a fixed depth
+
+const KIWIPETE = 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1';
+const MIDDLEGAME = 'r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N2N2/PP2BPPP/R1BQK2R b KQ - 1 8';
+
+const walkByCloning = (game: ChessGame, depth: number): number => {
+  if (depth === 0) return 1;
+  let nodes = 1;
+  for (const move of game.getAllLegalMoves(game.getCurrentPlayer())) {
+    const copy = game.clone();
+    copy.applyMove(move);
+    nodes += walkByCloning(copy, depth - 1);
+  }
+  return nodes;
+};
+
+const walkInPlace = (game: ChessGame, depth: number): number => {
+  if (depth === 0) return 1;
+  let nodes = 1;
+  for (const move of game.getAllLegalMoves(game.getCurrentPlayer())) {
+    game.makeMoveUnchecked(move);
+    nodes += walkInPlace(game, depth - 1);
+    game.unmakeMove();
+  }
+  return nodes;
+};
+
+describe('move tree walk, Kiwipete to depth 2', () => {
+  bench('clone() and applyMove at every node', () => {
+    walkByCloning(new ChessGame(KIWIPETE), 2);
+  }, { iterations: 5 });
+
+  bench('makeMoveUnchecked / unmakeMove', () => {
+    walkInPlace(new ChessGame(KIWIPETE), 2);
+  }, { iterations: 5 });
+});
+
+describe('ChessAI search', () => {
+  bench('middlegame to depth 3', () => {
+    // A fresh AI each run, so the transposition table starts empty
+    new ChessAI().search(new ChessGame(MIDDLEGAME), { maxDepth: 3 });
+  }, { iterations: 3 });
+});
@@ -0,0 +1,66 @@
+import { Color, GameMode, GameOverReason } from './types';
+import { PuzzleRating, PuzzleResult } from './puzzles';
+
+const STORAGE_KEY = 'chess-master:game';
+const PUZZLE_STORAGE_KEY = 'chess-master:puzzles';
+
+// The game in progress and the settings it is played with, so a reload
+// picks up where the player left off
+export interface SavedGame {
+  pgn: string;
+  timeControlId: string;
+  gameMode: GameMode;
+  humanColor: Color | null;
+  difficultyIds: Record<Color, string>;
+  customElos: Record<Color, number>;
+  // Missing from games saved before these options existed
+  showEvaluation?: boolean;
+  showThreats?: boolean;
+  // Hints the player asked for during the game
+  hintsUsed?: number;
+  // How the game ended; a claimed draw can't be told from the moves alone
+  gameOverReason?: GameOverReason | null;
+}
+
+// Storage can be full, disabled or hold data from an older version; none of
+// that should stop the game from working, so failures are ignored
+export const saveGame = (saved: SavedGame): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch {
+    // Not saved
+  }
+};
+
+export const loadGame = (): SavedGame | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return saved && typeof saved.pgn === 'string' ? (saved as SavedGame) : null;
+  } catch {
+    return null;
+  }
+};
+
+// The solver's puzzle rating and the first result of every puzzle tried
+export interface PuzzleProgress extends PuzzleRating {
+  results: Record<string, PuzzleResult>;
+}
+
+export const savePuzzleProgress = (progress: PuzzleProgress): void => {
+  try {
+    localStorage.setItem(PUZZLE_STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Not saved
+  }
+};
+
+export const loadPuzzleProgress = (): PuzzleProgress | null => {
+  try {
+    const progress = JSON.parse(localStorage.getItem(PUZZLE_STORAGE_KEY) ?? 'null');
+    return progress && typeof progress.rating === 'number' && typeof progress.deviation === 'number' && progress.results
+      ? (progress as PuzzleProgress)
+      : null;
+  } catch {
+    return null;
+  }
+};
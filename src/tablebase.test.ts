@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { buildTablebases, exportTablebase, probeTablebase } from './tablebase';
+import { ChessGame } from './ChessGame';
+
+const probe = (fen: string) => {
+  const game = new ChessGame(fen);
+  return probeTablebase(game.getBoardView(), game.getCurrentPlayer());
+};
+
+describe('buildTablebases', () => {
+  it('must run before a table can be probed', () => {
+    expect(probe('K7/1R6/2k5/8/8/8/8/8 w - - 0 1')).toBeNull();
+    buildTablebases(['KRK']);
+    expect(probe('K7/1R6/2k5/8/8/8/8/8 w - - 0 1')?.outcome).toBe('win');
+    expect(probe('K7/1Q6/8/8/5k2/8/8/8 w - - 0 1')).toBeNull();
+  });
+});
+
+describe('loadTablebase', () => {
+  it('takes a table built by another copy of the module, as in another worker', async () => {
+    const data = exportTablebase('KQK');
+    vi.resetModules();
+    const other = await import('./tablebase');
+    const game = new ChessGame('K7/1Q6/8/8/5k2/8/8/8 w - - 0 1');
+    expect(other.probeTablebase(game.getBoardView(), 'white')).toBeNull();
+
+    other.loadTablebase(data);
+    expect(other.probeTablebase(game.getBoardView(), 'white')).toEqual({ outcome: 'win', dtm: 19 });
+    expect(() => other.loadTablebase({ ...data, ending: 'KPK' })).toThrow('wrong size');
+  });
+});
+
+describe('probeTablebase', () => {
+  // KBNK alone takes several seconds
+  beforeAll(() => buildTablebases(), 60_000);
+
+  it('finds the longest mates with a queen or rook', () => {
+    // Mate in 10 and mate in 16 moves, the longest these endings have
+    expect(probe('K7/1Q6/8/8/5k2/8/8/8 w - - 0 1')).toEqual({ outcome: 'win', dtm: 19 });
+    expect(probe('K7/1R6/2k5/8/8/8/8/8 w - - 0 1')).toEqual({ outcome: 'win', dtm: 31 });
+  });
+
+  it('reports mates and losses for the side to move', () => {
+    expect(probe('k7/1Q6/1K6/8/8/8/8/8 b - - 0 1')).toEqual({ outcome: 'loss', dtm: 0 });
+    expect(probe('k7/8/1K6/8/8/8/8/7R w - - 0 1')).toEqual({ outcome: 'win', dtm: 1 });
+    expect(probe('k7/8/1K6/8/8/8/8/7R b - - 0 1')?.outcome).toBe('loss');
+  });
+
+  it('gives the same result when black has the pieces', () => {
+    expect(probe('8/8/8/8/8/2K5/1r6/k7 b - - 0 1')).toEqual(probe('K7/1R6/2k5/8/8/8/8/8 w - - 0 1'));
+    expect(probe('8/8/8/8/8/2K5/1r6/k7 w - - 0 1')).toEqual(probe('K7/1R6/2k5/8/8/8/8/8 b - - 0 1'));
+  });
+
+  it('knows which king and pawn endings are won', () => {
+    // Whoever moves loses the opposition
+    expect(probe('8/8/4k3/8/4K3/4P3/8/8 w - - 0 1')?.outcome).toBe('draw');
+    expect(probe('8/8/4k3/8/4K3/4P3/8/8 b - - 0 1')?.outcome).toBe('loss');
+    // A rook pawn can't drive the king out of the corner
+    expect(probe('k7/8/K7/P7/8/8/8/8 w - - 0 1')?.outcome).toBe('draw');
+    // The pawn promotes unstoppably
+    expect(probe('8/4P3/8/8/8/8/8/K6k w - - 0 1')).toEqual({ outcome: 'win', dtm: 17 });
+  });
+
+  it('mates with bishop and knight', () => {
+    // Mate in 33 moves, the longest this ending has
+    expect(probe('N7/k7/8/6B1/8/8/8/K7 w - - 0 1')).toEqual({ outcome: 'win', dtm: 65 });
+    // Be4 mates
+    expect(probe('k7/2K5/8/1N3B2/8/8/8/8 w - - 0 1')).toEqual({ outcome: 'win', dtm: 1 });
+  });
+
+  it('only covers a lone king against its endings', () => {
+    expect(probe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toBeNull();
+    expect(probe('k7/8/K7/8/8/8/8/7N w - - 0 1')).toBeNull();
+    expect(probe('k7/8/K7/8/8/8/8/6NN w - - 0 1')).toBeNull();
+    expect(probe('k7/p7/K7/8/8/8/8/7R w - - 0 1')).toBeNull();
+  });
+});
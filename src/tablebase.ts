@@ -0,0 +1,456 @@
+import { Color, PieceType, ReadonlyBoard } from './types';
+
+// Distance-to-mate tables for a king and up to two pieces against a lone
+// king, generated by retrograde analysis and kept for the rest of the
+// session. Castling rights and the fifty-move rule are ignored
+
+export type TablebaseOutcome = 'win' | 'draw' | 'loss';
+
+export interface TablebaseResult {
+  // For the side to move
+  outcome: TablebaseOutcome;
+  // Plies until mate with best play from both sides, or null for a draw
+  dtm: number | null;
+}
+
+// A built table, as passed between workers so each ending is only
+// generated once
+export interface TablebaseData {
+  ending: string;
+  results: Uint8Array;
+  plies: Uint8Array;
+}
+
+// The strong side's pieces besides its king, in index order
+const ENDINGS: Record<string, PieceType[]> = {
+  KQK: ['queen'],
+  KRK: ['rook'],
+  KPK: ['pawn'],
+  KBNK: ['bishop', 'knight']
+};
+
+export const MAX_TABLEBASE_PIECES = 4;
+
+const UNKNOWN = 0;
+const WIN = 1;
+const LOSS = 2;
+const DRAW = 3;
+const ILLEGAL = 4;
+
+// Squares are row * 8 + col, as on the board: row 0 is the eighth rank.
+// Tables are built with the strong side as white, so its pawns move up
+const rowOf = (square: number) => square >> 3;
+const colOf = (square: number) => square & 7;
+
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const BISHOP_RAYS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_RAYS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const PIECE_RAYS: Partial<Record<PieceType, number[][]>> = {
+  bishop: BISHOP_RAYS,
+  rook: ROOK_RAYS,
+  queen: [...BISHOP_RAYS, ...ROOK_RAYS]
+};
+
+const getStepTargets = (steps: number[][]) => {
+  return Array.from({ length: 64 }, (_, square) => {
+    return steps
+      .map(([dr, dc]) => [rowOf(square) + dr, colOf(square) + dc])
+      .filter(([row, col]) => row >= 0 && row < 8 && col >= 0 && col < 8)
+      .map(([row, col]) => row * 8 + col);
+  });
+};
+
+const KING_TARGETS = getStepTargets(KING_STEPS);
+const KNIGHT_TARGETS = getStepTargets(KNIGHT_STEPS);
+
+// Squares a piece on `from` reaches, up to and including the first
+// occupied square on each ray
+const getReach = (type: PieceType, from: number, isOccupied: (square: number) => boolean): number[] => {
+  if (type === 'king') return KING_TARGETS[from];
+  if (type === 'knight') return KNIGHT_TARGETS[from];
+
+  const squares: number[] = [];
+  for (const [dr, dc] of PIECE_RAYS[type]!) {
+    let row = rowOf(from) + dr;
+    let col = colOf(from) + dc;
+    while (row >= 0 && row < 8 && col >= 0 && col < 8) {
+      squares.push(row * 8 + col);
+      if (isOccupied(row * 8 + col)) break;
+      row += dr;
+      col += dc;
+    }
+  }
+  return squares;
+};
+
+// The eight symmetries of the board as square maps; positions with pawns
+// can only be mirrored left to right
+const createSymmetry = (map: (row: number, col: number) => [number, number]) => {
+  return Array.from({ length: 64 }, (_, square) => {
+    const [row, col] = map(rowOf(square), colOf(square));
+    return row * 8 + col;
+  });
+};
+
+const SYMMETRIES = [
+  createSymmetry((row, col) => [row, col]),
+  createSymmetry((row, col) => [row, 7 - col]),
+  createSymmetry((row, col) => [7 - row, col]),
+  createSymmetry((row, col) => [7 - row, 7 - col]),
+  createSymmetry((row, col) => [col, row]),
+  createSymmetry((row, col) => [col, 7 - row]),
+  createSymmetry((row, col) => [7 - col, row]),
+  createSymmetry((row, col) => [7 - col, 7 - row])
+];
+
+// A position as square numbers, with the strong side as white
+interface TablePosition {
+  whiteToMove: boolean;
+  whiteKing: number;
+  blackKing: number;
+  pieces: number[];
+}
+
+class Tablebase {
+  // Table slot of each square for the white king, or -1; the symmetries
+  // move the white king into the a1-d1-d4 triangle, or onto the queenside
+  // with pawns
+  private readonly kingSlots: number[] = Array(64).fill(-1);
+  private readonly slotSquares: number[] = [];
+  // For each white king square, the symmetries that move it into a slot
+  private readonly canonicalSymmetries: number[][][];
+  private readonly pieceSpan: number;
+  private readonly results: Uint8Array;
+  private readonly plies: Uint8Array;
+  // For undecided black positions, how many of the king's moves are known
+  // to lose, in KING_TARGETS order; used while generating
+  private movesLost: Uint8Array | null = null;
+
+  // Empty until generated, unless the data of a built table is given
+  constructor(private readonly pieceTypes: PieceType[], data?: Pick<TablebaseData, 'results' | 'plies'>) {
+    const hasPawns = pieceTypes.includes('pawn');
+    for (let square = 0; square < 64; square++) {
+      const file = colOf(square);
+      const rank = 7 - rowOf(square);
+      if (hasPawns ? file < 4 : file < 4 && rank <= file) {
+        this.kingSlots[square] = this.slotSquares.length;
+        this.slotSquares.push(square);
+      }
+    }
+    const symmetries = hasPawns ? SYMMETRIES.slice(0, 2) : SYMMETRIES;
+    this.canonicalSymmetries = Array.from({ length: 64 }, (_, square) => {
+      return symmetries.filter(map => this.kingSlots[map[square]] >= 0);
+    });
+    this.pieceSpan = 64 ** pieceTypes.length;
+
+    const size = 2 * this.slotSquares.length * 64 * this.pieceSpan;
+    if (data && (data.results.length !== size || data.plies.length !== size)) {
+      throw new Error('Tablebase data has the wrong size');
+    }
+    this.results = data?.results ?? new Uint8Array(size);
+    this.plies = data?.plies ?? new Uint8Array(size);
+  }
+
+  getData(): Pick<TablebaseData, 'results' | 'plies'> {
+    return { results: this.results, plies: this.plies };
+  }
+
+  probe(position: TablePosition): TablebaseResult {
+    const index = this.getIndex(position.whiteToMove, position.whiteKing, position.blackKing, position.pieces);
+    const result = this.results[index];
+    if (result === WIN || result === LOSS) {
+      return { outcome: result === WIN ? 'win' : 'loss', dtm: this.plies[index] };
+    }
+    return { outcome: 'draw', dtm: null };
+  }
+
+  // The lowest index among the symmetric copies of the position, so every
+  // position has exactly one entry. Takes the position's fields rather
+  // than an object, since generation computes millions of these
+  private getIndex(whiteToMove: boolean, whiteKing: number, blackKing: number, pieces: number[]): number {
+    const maps = this.canonicalSymmetries[whiteKing];
+    const side = whiteToMove ? 0 : this.slotSquares.length;
+    let best = Infinity;
+    for (let m = 0; m < maps.length; m++) {
+      const map = maps[m];
+      let index = (side + this.kingSlots[map[whiteKing]]) * 64 + map[blackKing];
+      for (let i = 0; i < pieces.length; i++) {
+        index = index * 64 + map[pieces[i]];
+      }
+      if (index < best) best = index;
+    }
+    return best;
+  }
+
+  private decode(index: number): TablePosition {
+    const pieces: number[] = [];
+    for (let i = 0; i < this.pieceTypes.length; i++) {
+      pieces.unshift(index % 64);
+      index = Math.floor(index / 64);
+    }
+    const blackKing = index % 64;
+    index = Math.floor(index / 64);
+    const slotCount = this.slotSquares.length;
+    return { whiteToMove: index < slotCount, whiteKing: this.slotSquares[index % slotCount], blackKing, pieces };
+  }
+
+  // Squares the lone king can't move to: those the strong side attacks or
+  // defends, and the strong king's own square. The lone king is left off
+  // the board so it can't shelter behind itself from a slider
+  private getAttackMap(whiteKing: number, pieces: number[]): Uint8Array {
+    const attacked = new Uint8Array(64);
+    const isOccupied = (square: number) => square === whiteKing || pieces.includes(square);
+    attacked[whiteKing] = 1;
+    for (const square of KING_TARGETS[whiteKing]) attacked[square] = 1;
+
+    pieces.forEach((from, i) => {
+      if (this.pieceTypes[i] === 'pawn') {
+        if (colOf(from) > 0) attacked[from - 9] = 1;
+        if (colOf(from) < 7) attacked[from - 7] = 1;
+      } else {
+        for (const square of getReach(this.pieceTypes[i], from, isOccupied)) attacked[square] = 1;
+      }
+    });
+    return attacked;
+  }
+
+  generate(getOtherTable: (name: string) => Tablebase): void {
+    this.movesLost = new Uint8Array(this.results.length);
+    let frontier: number[] = [];
+    // White wins reached by promoting, by the ply they are won in
+    const promotions: number[][] = [];
+    const pawn = this.pieceTypes.indexOf('pawn');
+
+    // Mark illegal positions, and find the mates and stalemates
+    for (let slot = 0; slot < this.slotSquares.length; slot++) {
+      const whiteKing = this.slotSquares[slot];
+      for (let combination = 0; combination < this.pieceSpan; combination++) {
+        const pieces = this.decode(combination).pieces;
+        const squares = [whiteKing, ...pieces];
+        const isValid = new Set(squares).size === squares.length && (pawn < 0 || (rowOf(pieces[pawn]) % 7 !== 0));
+        const attacked = isValid ? this.getAttackMap(whiteKing, pieces) : null;
+
+        for (let blackKing = 0; blackKing < 64; blackKing++) {
+          const blackIndex = ((this.slotSquares.length + slot) * 64 + blackKing) * this.pieceSpan + combination;
+          const whiteIndex = (slot * 64 + blackKing) * this.pieceSpan + combination;
+          if (!attacked || squares.includes(blackKing) || KING_TARGETS[whiteKing].includes(blackKing)) {
+            this.results[whiteIndex] = ILLEGAL;
+            this.results[blackIndex] = ILLEGAL;
+            continue;
+          }
+
+          // With white to move, black can't be in check
+          if (attacked[blackKing]) {
+            this.results[whiteIndex] = ILLEGAL;
+          } else if (pawn >= 0) {
+            const plies = this.getPromotionPlies({ whiteToMove: true, whiteKing, blackKing, pieces }, pawn, getOtherTable);
+            if (plies !== null) {
+              (promotions[plies] ??= []).push(whiteIndex);
+            }
+          }
+
+          if (KING_TARGETS[blackKing].every(square => attacked[square])) {
+            this.results[blackIndex] = attacked[blackKing] ? LOSS : DRAW;
+            if (attacked[blackKing]) frontier.push(blackIndex);
+          }
+        }
+      }
+    }
+
+    // Work outwards from the mates: a position where white can move to a
+    // lost position is won one ply later, and a black position is lost once
+    // every move leads to a won one
+    for (let ply = 0; frontier.length > 0 || ply < promotions.length; ply++) {
+      for (const index of promotions[ply] ?? []) {
+        if (this.results[index] === UNKNOWN) {
+          this.results[index] = WIN;
+          this.plies[index] = ply;
+          frontier.push(index);
+        }
+      }
+
+      const next: number[] = [];
+      for (const index of frontier) {
+        const position = this.decode(index);
+        if (position.whiteToMove) {
+          this.findLostForBlack(position, ply + 1, next);
+        } else {
+          this.findWonForWhite(position, ply + 1, next);
+        }
+      }
+      frontier = next;
+    }
+    this.movesLost = null;
+  }
+
+  // `position` is lost for black, so every position where white could
+  // have just moved there is won. White never captures, since black has
+  // nothing but its king
+  private findWonForWhite(position: TablePosition, ply: number, found: number[]): void {
+    const { whiteKing, blackKing, pieces } = position;
+    const isOccupied = (square: number) => square === whiteKing || square === blackKing || pieces.includes(square);
+    const mark = (whiteKing: number, pieces: number[]) => {
+      const index = this.getIndex(true, whiteKing, blackKing, pieces);
+      if (this.results[index] === UNKNOWN) {
+        this.results[index] = WIN;
+        this.plies[index] = ply;
+        found.push(index);
+      }
+    };
+
+    for (const origin of KING_TARGETS[whiteKing]) {
+      if (!isOccupied(origin)) mark(origin, pieces);
+    }
+
+    pieces.forEach((from, i) => {
+      let origins: number[];
+      if (this.pieceTypes[i] === 'pawn') {
+        // Pawns start on the second rank (row 6) and move up
+        origins = rowOf(from) < 6 && !isOccupied(from + 8) ? [from + 8] : [];
+        if (rowOf(from) === 4 && origins.length > 0 && !isOccupied(from + 16)) {
+          origins.push(from + 16);
+        }
+      } else {
+        origins = getReach(this.pieceTypes[i], from, isOccupied).filter(square => !isOccupied(square));
+      }
+      const moved = [...pieces];
+      for (const origin of origins) {
+        moved[i] = origin;
+        mark(whiteKing, moved);
+      }
+    });
+  }
+
+  // `position` is won for white, so a position where black just moved
+  // from is lost once every black move there leads to a won position.
+  // Capturing a piece always draws
+  private findLostForBlack({ whiteKing, blackKing, pieces }: TablePosition, ply: number, found: number[]): void {
+    const attacked = this.getAttackMap(whiteKing, pieces);
+    const movesLost = this.movesLost!;
+    // Moves are counted in the canonical position's own orientation, which
+    // can only differ from this one with the white king on the diagonal
+    const isOnDiagonal = this.canonicalSymmetries[whiteKing].length > 1;
+
+    for (const origin of KING_TARGETS[blackKing]) {
+      // Positions with the kings side by side or on the same square as a
+      // piece are marked illegal, so only real predecessors are unknown
+      const index = this.getIndex(false, whiteKing, origin, pieces);
+      if (this.results[index] !== UNKNOWN) continue;
+
+      const predecessor = isOnDiagonal ? this.decode(index) : { whiteToMove: false, whiteKing, blackKing: origin, pieces };
+      const predecessorAttacked = isOnDiagonal ? this.getAttackMap(predecessor.whiteKing, predecessor.pieces) : attacked;
+
+      const targets = KING_TARGETS[predecessor.blackKing];
+      let lost = movesLost[index];
+      while (lost < targets.length && this.isLosingMove(predecessor, predecessorAttacked, targets[lost])) {
+        lost++;
+      }
+      movesLost[index] = lost;
+
+      if (lost === targets.length) {
+        this.results[index] = LOSS;
+        this.plies[index] = ply;
+        found.push(index);
+      }
+    }
+  }
+
+  // Whether the lone king moving to `square` loses; squares it can't move
+  // to count too
+  private isLosingMove({ whiteKing, pieces }: TablePosition, attacked: Uint8Array, square: number): boolean {
+    if (attacked[square]) return true;
+    if (pieces.includes(square)) return false;
+    return this.results[this.getIndex(true, whiteKing, square, pieces)] === WIN;
+  }
+
+  // The quickest win by promoting the pawn, using the tables of the
+  // endings a queen or rook promotion leads to
+  private getPromotionPlies(
+    position: TablePosition,
+    pawn: number,
+    getOtherTable: (name: string) => Tablebase
+  ): number | null {
+    const to = position.pieces[pawn] - 8;
+    if (rowOf(to) !== 0 || to === position.whiteKing || to === position.blackKing) return null;
+
+    // Bishop and knight promotions can't mate a lone king
+    let best: number | null = null;
+    for (const name of ['KQK', 'KRK']) {
+      const { outcome, dtm } = getOtherTable(name).probe({ ...position, whiteToMove: false, pieces: [to] });
+      if (outcome === 'loss') {
+        best = Math.min(best ?? Infinity, dtm! + 1);
+      }
+    }
+    return best;
+  }
+}
+
+const tables = new Map<string, Tablebase>();
+
+const getTable = (name: string): Tablebase => {
+  let table = tables.get(name);
+  if (!table) {
+    table = new Tablebase(ENDINGS[name]);
+    table.generate(getTable);
+    tables.set(name, table);
+  }
+  return table;
+};
+
+export const TABLEBASE_ENDINGS = Object.keys(ENDINGS);
+
+// Generates the tables for `endings` that aren't built yet. This takes a
+// while (KBNK needs seconds and over 100 MB), so it is done up front
+// rather than in the middle of a search
+export const buildTablebases = (endings: string[] = TABLEBASE_ENDINGS): void => {
+  endings.forEach(getTable);
+};
+
+// The data of the table for `ending`, building it first if need be
+export const exportTablebase = (ending: string): TablebaseData => ({ ending, ...getTable(ending).getData() });
+
+// Takes a table built elsewhere, such as in another worker
+export const loadTablebase = ({ ending, results, plies }: TablebaseData): void => {
+  if (!ENDINGS[ending]) throw new Error(`Unknown tablebase ending: ${ending}`);
+  if (!tables.has(ending)) tables.set(ending, new Tablebase(ENDINGS[ending], { results, plies }));
+};
+
+const PIECE_LETTERS: Record<PieceType, string> = { pawn: 'P', knight: 'N', bishop: 'B', rook: 'R', queen: 'Q', king: 'K' };
+
+// Looks the position up if it is one of the endings whose table has been
+// built. Returns null otherwise
+export const probeTablebase = (board: ReadonlyBoard, currentPlayer: Color): TablebaseResult | null => {
+  const pieces: { type: PieceType; color: Color; square: number }[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece) {
+        if (pieces.length === MAX_TABLEBASE_PIECES) return null;
+        pieces.push({ ...piece, square: row * 8 + col });
+      }
+    }
+  }
+
+  const whiteCount = pieces.filter(piece => piece.color === 'white').length;
+  if (pieces.length < 3 || Math.min(whiteCount, pieces.length - whiteCount) !== 1) return null;
+  const strong: Color = whiteCount > 1 ? 'white' : 'black';
+  const weak: Color = strong === 'white' ? 'black' : 'white';
+
+  const strongPieces = pieces.filter(piece => piece.color === strong && piece.type !== 'king');
+  const letters = strongPieces.map(piece => PIECE_LETTERS[piece.type]).sort().join('');
+  const name = TABLEBASE_ENDINGS.find(ending => [...ending.slice(1, -1)].sort().join('') === letters);
+  const table = name ? tables.get(name) : undefined;
+  if (!name || !table) return null;
+
+  // Black's pieces are turned around so the strong side is white
+  const toSquare = (square: number) => (strong === 'white' ? square : (7 - rowOf(square)) * 8 + colOf(square));
+  const findKing = (color: Color) => toSquare(pieces.find(piece => piece.type === 'king' && piece.color === color)!.square);
+
+  return table.probe({
+    whiteToMove: currentPlayer === strong,
+    whiteKing: findKing(strong),
+    blackKing: findKing(weak),
+    pieces: ENDINGS[name].map(type => toSquare(strongPieces.find(piece => piece.type === type)!.square))
+  });
+};
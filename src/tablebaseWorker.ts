@@ -0,0 +1,10 @@
+import { TABLEBASE_ENDINGS, TablebaseData, exportTablebase } from './tablebase';
+
+// Builds every tablebase once for the page, posting each as it is done so
+// the AI workers can use the quick ones while KBNK is still being built.
+// The worker then closes, freeing the memory generation took
+for (const ending of TABLEBASE_ENDINGS) {
+  const data: TablebaseData = exportTablebase(ending);
+  self.postMessage(data);
+}
+self.close();
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { findThreatenedPieces, getPassedPosition } from './threats';
+import { positionToSquare } from './utils';
+
+const threatenedSquares = (fen: string, color: 'white' | 'black') =>
+  findThreatenedPieces(new ChessGame(fen), color).map(positionToSquare);
+
+describe('getPassedPosition', () => {
+  it('hands the move to the opponent', () => {
+    const game = new ChessGame('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2');
+    expect(getPassedPosition(game)!.toFen()).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2');
+  });
+
+  it('is not allowed in check', () => {
+    expect(getPassedPosition(new ChessGame('4k3/8/8/8/8/8/8/r3K3 w - - 0 1'))).toBeNull();
+  });
+});
+
+describe('findThreatenedPieces', () => {
+  it('finds undefended pieces under attack', () => {
+    expect(threatenedSquares('r3k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'white')).toEqual(['a1']);
+    expect(threatenedSquares('r3k3/8/8/8/8/8/8/R3K3 w - - 0 1', 'black')).toEqual(['a8']);
+  });
+
+  it('finds defended pieces attacked by cheaper ones', () => {
+    expect(threatenedSquares('4k3/8/8/3p4/4N3/5P2/8/4K3 w - - 0 1', 'white')).toEqual(['e4']);
+  });
+
+  it('ignores defended pieces attacked by more valuable ones', () => {
+    expect(threatenedSquares('4k3/8/8/8/4r3/8/4N3/4K3 w - - 0 1', 'white')).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { ChessGame } from './ChessGame';
+import { PIECE_VALUES } from './evaluation';
+import { Color, Position } from './types';
+import { positionsEqual } from './utils';
+
+// The position as if the side to move passed, so the opponent's ideas can
+// be searched. Null when the side to move is in check, since the opponent
+// could then take the king
+export const getPassedPosition = (game: ChessGame): ChessGame | null => {
+  if (game.isKingInCheck()) {
+    return null;
+  }
+  const fields = game.toFen().split(' ');
+  fields[1] = fields[1] === 'w' ? 'b' : 'w';
+  // A pass ends any chance of capturing en passant
+  fields[3] = '-';
+  return new ChessGame(fields.join(' '));
+};
+
+// Squares of `color`'s pieces that the opponent attacks and that are either
+// undefended or attacked by a cheaper piece, so they could be lost. The king
+// is left out, as check is already shown
+export const findThreatenedPieces = (game: ChessGame, color: Color): Position[] => {
+  const opponent = color === 'white' ? 'black' : 'white';
+  const attackerPosition = game.getCurrentPlayer() === color ? getPassedPosition(game) : game;
+  const captures = attackerPosition?.getAllLegalMoves(opponent).filter(move => move.capturedPiece) ?? [];
+  const { board } = game.getGameState();
+  const threatened: Position[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      const square = { row, col };
+      if (!piece || piece.color !== color || piece.type === 'king' || !game.isSquareAttacked(board, square, opponent)) {
+        continue;
+      }
+      const isDefended = game.isSquareAttacked(board, square, color);
+      const hasCheaperAttacker = captures.some(
+        move => positionsEqual(move.to, square) && PIECE_VALUES[move.piece.type] < PIECE_VALUES[piece.type]
+      );
+      if (!isDefended || hasCheaperAttacker) {
+        threatened.push(square);
+      }
+    }
+  }
+  return threatened;
+};
@@ -19,9 +19,25 @@ export interface Move {
   isEnPassant?: boolean;
   isCastling?: boolean;
   promoteTo?: PieceType;
+  san?: string;
 }
 
 export type Board = (Piece | null)[][];
+export type ReadonlyBoard = readonly (readonly (Piece | null)[])[];
+
+// Draws a player may claim; the game only ends by itself at fivefold
+// repetition or after seventy-five moves
+export type ClaimableDraw = 'threefold-repetition' | 'fifty-move-rule';
+
+export type DrawReason =
+  | 'stalemate'
+  | ClaimableDraw
+  | 'fivefold-repetition'
+  | 'seventy-five-move-rule'
+  | 'insufficient-material'
+  | 'timeout-vs-insufficient-material';
+
+export type GameOverReason = 'checkmate' | 'timeout' | DrawReason;
 
 export interface GameState {
   board: Board;
@@ -30,7 +46,66 @@ export interface GameState {
   isCheck: boolean;
   isCheckmate: boolean;
   isStalemate: boolean;
+  gameOverReason: GameOverReason | null;
   canCastleKingSide: { white: boolean; black: boolean };
   canCastleQueenSide: { white: boolean; black: boolean };
   enPassantTarget: Position | null;
-}
\ No newline at end of file
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+// How time is returned after each move: Fischer adds a fixed increment,
+// Bronstein refunds the time used up to a limit, and a simple delay lets
+// the clock wait before it starts counting down
+export type IncrementMode = 'none' | 'fischer' | 'bronstein' | 'delay';
+
+export interface TimeControlPeriod {
+  // Moves to complete within the period, or null for the rest of the game
+  moves: number | null;
+  timeMs: number;
+}
+
+export interface TimeControl {
+  id: string;
+  name: string;
+  periods: TimeControlPeriod[];
+  incrementMode: IncrementMode;
+  incrementMs: number;
+}
+
+export interface SearchLimits {
+  maxDepth?: number;
+  timeMs?: number;
+  // Deliberate weakening: random evaluation error of up to `evalNoise`
+  // centipawns, and a `blunderChance` of playing a move up to
+  // `blunderMargin` centipawns worse than the best one
+  evalNoise?: number;
+  blunderChance?: number;
+  blunderMargin?: number;
+  // False searches even positions the opening book knows, as analysis needs
+  useBook?: boolean;
+}
+
+// Scores are in centipawns from the searching side's point of view
+export interface SearchIteration {
+  depth: number;
+  score: number;
+  // Full moves until a forced mate: positive when the AI mates, negative
+  // when it gets mated, null when neither side can force one
+  mate: number | null;
+  nodes: number;
+  timeMs: number;
+  pv: Move[];
+}
+
+export interface SearchResult {
+  bestMove: Move | null;
+  iterations: SearchIteration[];
+  // Set when the move was played from the opening book without a search
+  fromBook?: boolean;
+  // Set when the move was looked up in an endgame tablebase
+  fromTablebase?: boolean;
+}
+
+// Which side the human plays; 'ai-vs-ai' lets the engine play itself
+export type GameMode = 'white' | 'black' | 'random' | 'ai-vs-ai';
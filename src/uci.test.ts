@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { ChessAI } from './ChessAI';
+import { UciEngine, UciSearcher, parseGoLimits } from './uci';
+import { SearchResult } from './types';
+
+// Searches on the calling thread, so `stop` can only come before `go`
+const directSearcher = (ai = new ChessAI()): UciSearcher => ({
+  search: async (game, limits, onIteration) => ai.search(game, limits, onIteration),
+  stop: () => {},
+  whenReady: async () => {},
+  setBookFile: () => {}
+});
+
+const createEngine = (searcher = directSearcher()) => {
+  const output: string[] = [];
+  const engine = new UciEngine(searcher, line => output.push(line));
+  return { engine, output };
+};
+
+describe('UciEngine', () => {
+  it('identifies itself and answers isready', async () => {
+    const { engine, output } = createEngine();
+    engine.handleCommand('uci');
+    engine.handleCommand('isready');
+    await Promise.resolve();
+    expect(output[0]).toMatch(/^id name /);
+    expect(output.slice(-2)).toEqual(['uciok', 'readyok']);
+  });
+
+  it('answers isready once the searcher is set up', async () => {
+    let setUp: () => void = () => {};
+    const ready = new Promise<void>(resolve => (setUp = resolve));
+    const { engine, output } = createEngine({ ...directSearcher(), whenReady: () => ready });
+    engine.handleCommand('isready');
+    await Promise.resolve();
+    expect(output).toEqual([]);
+
+    setUp();
+    await ready;
+    await Promise.resolve();
+    expect(output).toEqual(['readyok']);
+  });
+
+  it('searches the position after the given moves and reports each depth', async () => {
+    const { engine, output } = createEngine();
+    engine.handleCommand('position fen 4k3/ppp5/8/8/8/8/PPP5/R3K3 w Q - 0 1 moves e1c1 e8f7');
+    engine.handleCommand('go depth 2');
+    await engine.waitForSearch();
+
+    expect(output.filter(line => line.startsWith('info depth')).map(line => line.split(' ')[2])).toEqual(['1', '2']);
+    expect(output[0]).toMatch(/^info depth 1 score cp -?\d+ nodes \d+ nps \d+ time \d+ pv [a-h][1-8][a-h][1-8]/);
+    // The king has castled, so nothing is left on e1
+    expect(output[output.length - 1]).toMatch(/^bestmove (?!e1)[a-h][1-8][a-h][1-8]$/);
+  });
+
+  it('reports forced mates', async () => {
+    const { engine, output } = createEngine();
+    engine.handleCommand('position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1');
+    engine.handleCommand('go depth 3');
+    await engine.waitForSearch();
+    expect(output).toContain('bestmove a1a8');
+    expect(output.some(line => line.includes('score mate 1 '))).toBe(true);
+  });
+
+  it('stops applying moves at the first illegal one', async () => {
+    const { engine, output } = createEngine();
+    engine.handleCommand('position startpos moves e2e4 e2e4');
+    engine.handleCommand('go depth 1');
+    await engine.waitForSearch();
+    expect(output[0]).toBe('info string Illegal move: e2e4');
+    // Still black to move after 1. e4
+    expect(output[output.length - 1]).toMatch(/^bestmove [a-h][78]/);
+  });
+
+  it('holds the best move of an infinite search until stop', async () => {
+    const { engine, output } = createEngine();
+    // Kg8 is the only move, so the search ends at once
+    engine.handleCommand('position fen 7k/R7/6K1/8/8/8/8/8 b - - 0 1');
+    engine.handleCommand('go infinite');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(output).toEqual([]);
+
+    engine.handleCommand('stop');
+    await engine.waitForSearch();
+    expect(output).toEqual(['bestmove h8g8']);
+  });
+
+  it('sends the best move once a stopped search finishes, even when quitting', async () => {
+    let finish: (result: SearchResult) => void = () => {};
+    let stopped = false;
+    const { engine, output } = createEngine({
+      search: () => new Promise(resolve => (finish = resolve)),
+      stop: () => {
+        stopped = true;
+        finish({ bestMove: null, iterations: [] });
+      },
+      whenReady: async () => {},
+      setBookFile: () => {}
+    });
+
+    engine.handleCommand('go infinite');
+    expect(engine.handleCommand('quit')).toBe(false);
+    await engine.waitForSearch();
+    expect(stopped).toBe(true);
+    expect(output).toEqual(['bestmove 0000']);
+  });
+
+  it('loads the book file given with setoption', () => {
+    const paths: (string | null)[] = [];
+    const { engine, output } = createEngine({
+      ...directSearcher(),
+      setBookFile: path => {
+        if (path?.endsWith('missing.bin')) throw new Error('no such file');
+        paths.push(path);
+      }
+    });
+    engine.handleCommand('uci');
+    expect(output).toContain('option name BookFile type string default <empty>');
+
+    engine.handleCommand('setoption name BookFile value /books/my openings.bin');
+    engine.handleCommand('setoption name BookFile value <empty>');
+    engine.handleCommand('setoption name BookFile value missing.bin');
+    engine.handleCommand('setoption name Hash value 64');
+    expect(paths).toEqual(['/books/my openings.bin', null]);
+    expect(output.slice(-2)).toEqual(['info string Could not load book: no such file', 'info string Unknown option: Hash']);
+  });
+});
+
+describe('parseGoLimits', () => {
+  it('reads depth and fixed move times', () => {
+    expect(parseGoLimits(['depth', '6'], 'white')).toEqual({ maxDepth: 6 });
+    expect(parseGoLimits(['movetime', '1500'], 'black')).toEqual({ timeMs: 1500 });
+  });
+
+  it('budgets clock time for the side to move', () => {
+    const args = ['wtime', '60000', 'btime', '3000', 'winc', '1000', 'binc', '1000'];
+    expect(parseGoLimits(args, 'white').timeMs).toBe(60000 / 30 + 800);
+    expect(parseGoLimits(args, 'black').timeMs).toBe(3000 / 30 + 800);
+    expect(parseGoLimits(['wtime', '100', 'movestogo', '1'], 'white').timeMs).toBe(50);
+  });
+});
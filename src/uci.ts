@@ -0,0 +1,180 @@
+import { ChessGame } from './ChessGame';
+import { Color, SearchIteration, SearchLimits, SearchResult } from './types';
+import { moveToUci } from './utils';
+
+// Runs searches for the UCI engine. A stopped search still resolves, with
+// the best move found so far. `whenReady` resolves once any setup, such as
+// building tablebases, is done. `setBookFile` switches to the Polyglot book
+// at the path, or back to just the built-in book for null, and throws if
+// the file can't be used
+export interface UciSearcher {
+  search(game: ChessGame, limits: SearchLimits, onIteration: (iteration: SearchIteration) => void): Promise<SearchResult>;
+  stop(): void;
+  whenReady(): Promise<void>;
+  setBookFile(path: string | null): void;
+}
+
+// Turns the arguments of `go` into search limits for `color`. With a clock,
+// the move gets the same share of the remaining time as in the app
+export const parseGoLimits = (args: string[], color: Color): SearchLimits => {
+  if (args.includes('infinite')) {
+    return { maxDepth: 64 };
+  }
+
+  const values = new Map<string, number>();
+  for (let i = 0; i + 1 < args.length; i++) {
+    const value = Number(args[i + 1]);
+    if (Number.isFinite(value)) values.set(args[i], value);
+  }
+
+  const limits: SearchLimits = {};
+  const depth = values.get('depth');
+  if (depth !== undefined) limits.maxDepth = Math.max(1, depth);
+
+  const remaining = values.get(color === 'white' ? 'wtime' : 'btime');
+  if (values.has('movetime')) {
+    limits.timeMs = values.get('movetime');
+  } else if (remaining !== undefined) {
+    const movesToGo = values.get('movestogo') ?? 30;
+    const bonus = (values.get(color === 'white' ? 'winc' : 'binc') ?? 0) * 0.8;
+    limits.timeMs = Math.max(50, Math.min(remaining / 2, remaining / movesToGo + bonus));
+  }
+  return limits;
+};
+
+export const formatInfo = ({ depth, score, mate, nodes, timeMs, pv }: SearchIteration): string => {
+  const nps = Math.round((nodes * 1000) / Math.max(1, timeMs));
+  const scoreText = mate !== null ? `mate ${mate}` : `cp ${score}`;
+  return `info depth ${depth} score ${scoreText} nodes ${nodes} nps ${nps} time ${timeMs} pv ${pv.map(moveToUci).join(' ')}`;
+};
+
+// The Universal Chess Interface: commands from a GUI come in one line at
+// a time, and replies go out through `send`. Only one search runs at once
+export class UciEngine {
+  private game = new ChessGame();
+  private searching: Promise<void> | null = null;
+  // Lets an infinite search send its best move; the protocol only allows
+  // that after `stop`, even if the search ends sooner
+  private releaseBestMove: (() => void) | null = null;
+
+  constructor(private readonly searcher: UciSearcher, private readonly send: (line: string) => void) {}
+
+  // Returns false once the GUI has asked the engine to quit
+  handleCommand(line: string): boolean {
+    const [command, ...args] = line.trim().split(/\s+/);
+
+    switch (command) {
+      case 'uci':
+        this.send('id name ChessAI');
+        this.send('id author ChessAI contributors');
+        this.send('option name BookFile type string default <empty>');
+        this.send('uciok');
+        break;
+      case 'isready':
+        void this.searcher.whenReady().then(() => this.send('readyok'));
+        break;
+      case 'setoption':
+        this.setOption(args);
+        break;
+      case 'ucinewgame':
+        this.game = new ChessGame();
+        break;
+      case 'position':
+        this.setPosition(args);
+        break;
+      case 'go':
+        this.go(args);
+        break;
+      case 'stop':
+        this.stop();
+        break;
+      case 'quit':
+        this.stop();
+        return false;
+      default:
+        // Unknown commands are reported and skipped, as the protocol asks
+        if (command) this.send(`info string Unknown command: ${command}`);
+    }
+    return true;
+  }
+
+  // Resolves once the current search, if any, has sent its best move
+  async waitForSearch(): Promise<void> {
+    await this.searching;
+  }
+
+  // setoption name <name> [value <value>]; names and values may have spaces
+  private setOption(args: string[]): void {
+    const valueAt = args.indexOf('value');
+    const name = args.slice(1, valueAt < 0 ? undefined : valueAt).join(' ');
+    const value = valueAt < 0 ? '' : args.slice(valueAt + 1).join(' ');
+
+    if (name.toLowerCase() !== 'bookfile') {
+      this.send(`info string Unknown option: ${name}`);
+      return;
+    }
+    try {
+      this.searcher.setBookFile(value && value !== '<empty>' ? value : null);
+    } catch (error) {
+      this.send(`info string Could not load book: ${(error as Error).message}`);
+    }
+  }
+
+  // position [startpos | fen <fen>] [moves <move>...]
+  private setPosition(args: string[]): void {
+    const movesAt = args.indexOf('moves');
+    const setup = movesAt < 0 ? args : args.slice(0, movesAt);
+    const moves = movesAt < 0 ? [] : args.slice(movesAt + 1);
+
+    let game: ChessGame;
+    try {
+      game = setup[0] === 'fen' ? new ChessGame(setup.slice(1).join(' ')) : new ChessGame();
+    } catch (error) {
+      this.send(`info string Invalid position: ${(error as Error).message}`);
+      return;
+    }
+
+    for (const uci of moves) {
+      const move = game.moveFromUci(uci);
+      if (!move) {
+        this.send(`info string Illegal move: ${uci}`);
+        break;
+      }
+      game.applyMove(move);
+    }
+    this.game = game;
+  }
+
+  private go(args: string[]): void {
+    if (this.searching) {
+      this.send('info string Already searching');
+      return;
+    }
+
+    const game = this.game.clone();
+    const limits = parseGoLimits(args, game.getCurrentPlayer());
+    const released = args.includes('infinite')
+      ? new Promise<void>(resolve => (this.releaseBestMove = resolve))
+      : Promise.resolve();
+    this.searching = this.searcher
+      .search(game, limits, iteration => this.send(formatInfo(iteration)))
+      .then(async ({ bestMove }) => {
+        await released;
+        // "0000" is the null move, for positions without a legal one
+        this.send(`bestmove ${bestMove ? moveToUci(bestMove) : '0000'}`);
+      })
+      .catch(error => {
+        this.send(`info string Search failed: ${(error as Error).message}`);
+        this.send('bestmove 0000');
+      })
+      .finally(() => {
+        this.searching = null;
+        this.releaseBestMove = null;
+      });
+  }
+
+  private stop(): void {
+    this.searcher.stop();
+    this.releaseBestMove?.();
+  }
+}
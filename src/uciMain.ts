@@ -0,0 +1,117 @@
+import { readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { Worker, isMainThread, parentPort } from 'node:worker_threads';
+import { ChessAI } from './ChessAI';
+import { ChessGame } from './ChessGame';
+import { AIWorkerRequest, AIWorkerResponse, createRequestHandler, createSearchRequest } from './aiWorkerProtocol';
+import { getBuiltInBook } from './openingBook';
+import { PolyglotBook } from './polyglot';
+import { buildTablebases } from './tablebase';
+import { SearchIteration, SearchLimits, SearchResult } from './types';
+import { UciEngine, UciSearcher } from './uci';
+
+// Node entry point speaking UCI on stdin and stdout, for chess GUIs and
+// tools like cutechess-cli. Build it with `npm run build:uci` and run
+// `node dist-uci/uciMain.js`. The same file runs as the search worker, so
+// `stop` can be read while a search is running
+
+// Searches on the worker thread; `stop` clears the id of the running search
+// from memory shared with the worker, which the AI checks as it searches
+class WorkerSearcher implements UciSearcher {
+  private readonly activeId = new Int32Array(new SharedArrayBuffer(4));
+  private readonly worker = new Worker(new URL(import.meta.url));
+  // The worker's first message says its tablebases are built
+  private readonly ready = new Promise<void>(resolve => this.worker.once('message', () => resolve()));
+  private nextId = 1;
+
+  constructor() {
+    const request: AIWorkerRequest = { type: 'stop-flag', activeId: this.activeId };
+    this.worker.postMessage(request);
+  }
+
+  search(game: ChessGame, limits: SearchLimits, onIteration: (iteration: SearchIteration) => void): Promise<SearchResult> {
+    const request = createSearchRequest(this.nextId++, game, limits);
+    Atomics.store(this.activeId, 0, request.id);
+
+    return new Promise((resolve, reject) => {
+      const handleResponse = (response: AIWorkerResponse) => {
+        if (response.id !== request.id) return;
+        if (response.type === 'progress') {
+          onIteration(response.iteration);
+          return;
+        }
+        this.worker.off('message', handleResponse);
+        if (response.type === 'result') {
+          resolve(response.result);
+        } else if (response.type === 'error') {
+          reject(new Error(response.message));
+        }
+      };
+      this.worker.on('message', handleResponse);
+      this.worker.postMessage(request);
+    });
+  }
+
+  stop(): void {
+    Atomics.store(this.activeId, 0, 0);
+  }
+
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  // Read here so a bad file is reported to the GUI; the worker takes
+  // requests in order, so the next search already uses the book
+  setBookFile(path: string | null): void {
+    let data: ArrayBuffer | null = null;
+    if (path) {
+      const file = readFileSync(path);
+      data = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+      new PolyglotBook(data);
+    }
+    const request: AIWorkerRequest = { type: 'book', data };
+    this.worker.postMessage(request);
+  }
+
+  async terminate(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
+
+const runEngine = () => {
+  const searcher = new WorkerSearcher();
+  const engine = new UciEngine(searcher, line => process.stdout.write(`${line}\n`));
+  const input = createInterface({ input: process.stdin });
+
+  const quit = async () => {
+    input.close();
+    // The best move of a stopped search still goes out before exiting
+    await engine.waitForSearch();
+    await searcher.terminate();
+    // Closing the interface leaves stdin open when a GUI keeps the pipe
+    process.stdin.destroy();
+  };
+
+  input.on('line', line => {
+    if (!engine.handleCommand(line)) void quit();
+  });
+  input.on('close', () => void quit());
+};
+
+const runWorker = () => {
+  const ai = new ChessAI();
+  ai.setOpeningBook(getBuiltInBook());
+  const handleRequest = createRequestHandler(ai, response => parentPort!.postMessage(response));
+
+  // Searches sent meanwhile wait for the tables, which GUIs avoid by
+  // sending isready first
+  buildTablebases();
+  parentPort!.postMessage('ready');
+  parentPort!.on('message', handleRequest);
+};
+
+if (isMainThread) {
+  runEngine();
+} else {
+  runWorker();
+}
@@ -1,4 +1,4 @@
-import { Board, Piece, Position, Color } from './types';
+import { Board, Move, Piece, PieceType, Position } from './types';
 
 export const createInitialBoard = (): Board => {
   const board: Board = Array(8).fill(null).map(() => Array(8).fill(null));
@@ -20,6 +20,9 @@ export const createInitialBoard = (): Board => {
   return board;
 };
 
+// The pieces a pawn may promote to, strongest first
+export const PROMOTION_PIECES: PieceType[] = ['queen', 'rook', 'bishop', 'knight'];
+
 export const isValidPosition = (pos: Position): boolean => {
   return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
 };
@@ -28,6 +31,29 @@ export const positionsEqual = (pos1: Position, pos2: Position): boolean => {
   return pos1.row === pos2.row && pos1.col === pos2.col;
 };
 
+// Same squares and promotion choice; the moving piece follows from the position
+export const movesEqual = (move1: Move, move2: Move): boolean => {
+  return positionsEqual(move1.from, move2.from) && positionsEqual(move1.to, move2.to) && move1.promoteTo === move2.promoteTo;
+};
+
+// Converts between board coordinates and algebraic squares like "e4"
+export const positionToSquare = (pos: Position): string => {
+  return `${String.fromCharCode(97 + pos.col)}${8 - pos.row}`;
+};
+
+export const squareToPosition = (square: string): Position | null => {
+  if (!/^[a-h][1-8]$/.test(square)) {
+    return null;
+  }
+  return { row: 8 - Number(square[1]), col: square.charCodeAt(0) - 97 };
+};
+
+// Long algebraic notation as used by UCI, e.g. "e2e4" or "e7e8q"
+export const moveToUci = (move: Move): string => {
+  const promotion = move.promoteTo ? (move.promoteTo === 'knight' ? 'n' : move.promoteTo[0]) : '';
+  return positionToSquare(move.from) + positionToSquare(move.to) + promotion;
+};
+
 export const copyBoard = (board: Board): Board => {
   return board.map(row => [...row]);
 };
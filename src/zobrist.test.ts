@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ChessGame } from './ChessGame';
+import { squareToPosition } from './utils';
+
+const play = (game: ChessGame, ...moves: string[]) => {
+  for (const move of moves) {
+    expect(game.makeMove(squareToPosition(move.slice(0, 2))!, squareToPosition(move.slice(2, 4))!)).toBe(true);
+  }
+};
+
+// The incremental key must match one computed from scratch
+const freshKey = (game: ChessGame) => new ChessGame(game.toFen()).getZobristKey();
+
+describe('zobrist hashing', () => {
+  it('matches a freshly computed key through a long game and its undo', () => {
+    const game = new ChessGame('r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1');
+    const keys = [game.getZobristKey()];
+    let seed = 7;
+
+    for (let ply = 0; ply < 120 && !game.getGameState().gameOverReason; ply++) {
+      const moves = game.getAllLegalMoves(game.getGameState().currentPlayer);
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      game.applyMove(moves[seed % moves.length]);
+      expect(game.getZobristKey()).toEqual(freshKey(game));
+      keys.push(game.getZobristKey());
+    }
+
+    while (game.canUndo()) {
+      keys.pop();
+      game.undoMove();
+      expect(game.getZobristKey()).toEqual(keys[keys.length - 1]);
+    }
+  });
+
+  it('gives transpositions the same key', () => {
+    const first = new ChessGame();
+    const second = new ChessGame();
+    play(first, 'g1f3', 'g8f6', 'b1c3', 'b8c6');
+    play(second, 'b1c3', 'b8c6', 'g1f3', 'g8f6');
+    expect(first.getZobristKey()).toEqual(second.getZobristKey());
+  });
+
+  it('tells apart side to move, castling rights and usable en passant squares', () => {
+    const key = (fen: string) => new ChessGame(fen).getZobristKey();
+    const base = 'r3k2r/8/8/3pP3/8/8/8/R3K2R w KQkq';
+
+    expect(key(`${base} - 0 1`)).not.toEqual(key('r3k2r/8/8/3pP3/8/8/8/R3K2R b KQkq - 0 1'));
+    expect(key(`${base} - 0 1`)).not.toEqual(key('r3k2r/8/8/3pP3/8/8/8/R3K2R w Kkq - 0 1'));
+    expect(key(`${base} d6 0 1`)).not.toEqual(key(`${base} - 0 1`));
+    // Nothing can capture on f6, so the target square doesn't matter
+    expect(key('4k3/8/8/5p2/8/8/8/4K3 w - f6 0 1')).toEqual(key('4k3/8/8/5p2/8/8/8/4K3 w - - 0 1'));
+  });
+
+  it('detects threefold repetition by key', () => {
+    const game = new ChessGame();
+    play(game, 'g1f3', 'g8f6', 'f3g1', 'f6g8', 'g1f3', 'g8f6', 'f3g1');
+    expect(game.getClaimableDraw()).toBeNull();
+    play(game, 'f6g8');
+    expect(game.getClaimableDraw()).toBe('threefold-repetition');
+  });
+});
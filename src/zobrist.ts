@@ -0,0 +1,86 @@
+import { Board, Color, Piece, PieceType, Position } from './types';
+
+// A 64-bit Zobrist key split into two unsigned 32-bit halves, since JS
+// bitwise operators only work on 32 bits
+export interface ZobristKey {
+  hi: number;
+  lo: number;
+}
+
+const PIECE_ORDER: PieceType[] = ['pawn', 'knight', 'bishop', 'rook', 'queen', 'king'];
+
+// Deterministic keys (mulberry32), so hashes are stable between runs and
+// between the page and the AI worker
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const random = createRandom(0x1060c4e5);
+const createKeys = (count: number): ZobristKey[] => {
+  return Array.from({ length: count }, () => ({ hi: random(), lo: random() }));
+};
+
+// 12 piece kinds x 64 squares, then black to move, the 16 castling right
+// combinations and the 8 en passant files
+const pieceKeys = createKeys(12 * 64);
+const blackToMoveKey = createKeys(1)[0];
+const castlingKeys = createKeys(16);
+const enPassantKeys = createKeys(8);
+
+export const EMPTY_KEY: ZobristKey = { hi: 0, lo: 0 };
+
+const xorKeys = (a: ZobristKey, b: ZobristKey): ZobristKey => {
+  return { hi: (a.hi ^ b.hi) >>> 0, lo: (a.lo ^ b.lo) >>> 0 };
+};
+
+export const keysEqual = (a: ZobristKey, b: ZobristKey): boolean => {
+  return a.hi === b.hi && a.lo === b.lo;
+};
+
+// Adds or removes a piece; XOR is its own inverse
+export const togglePiece = (key: ZobristKey, piece: Piece, pos: Position): ZobristKey => {
+  const kind = PIECE_ORDER.indexOf(piece.type) * 2 + (piece.color === 'white' ? 0 : 1);
+  return xorKeys(key, pieceKeys[kind * 64 + pos.row * 8 + pos.col]);
+};
+
+export const hashBoard = (board: Board): ZobristKey => {
+  let key = EMPTY_KEY;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece) {
+        key = togglePiece(key, piece, { row, col });
+      }
+    }
+  }
+  return key;
+};
+
+// Combines the board key with the rest of the position. `enPassantCol` is
+// only set when an en passant capture is actually possible, so positions
+// that differ only by an unusable target square hash the same
+export const hashPosition = (
+  boardKey: ZobristKey,
+  currentPlayer: Color,
+  castling: { kingSide: Record<Color, boolean>; queenSide: Record<Color, boolean> },
+  enPassantCol: number | null
+): ZobristKey => {
+  const rights =
+    (castling.kingSide.white ? 1 : 0) |
+    (castling.queenSide.white ? 2 : 0) |
+    (castling.kingSide.black ? 4 : 0) |
+    (castling.queenSide.black ? 8 : 0);
+
+  let key = xorKeys(boardKey, castlingKeys[rights]);
+  if (currentPlayer === 'black') {
+    key = xorKeys(key, blackToMoveKey);
+  }
+  if (enPassantCol !== null) {
+    key = xorKeys(key, enPassantKeys[enPassantCol]);
+  }
+  return key;
+};